@@ -0,0 +1,13 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getServerSubscriptionStore } from '../../../lib/subscription/server/fileStore';
+import { isMerchantRequest } from '../../../lib/subscription/server/sessions';
+
+// GET lists every subscription in the server store, newest first
+export async function GET(request: NextRequest) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Merchant authorization required' }, { status: 401 });
+  }
+  const subscribers = await getServerSubscriptionStore().listAll();
+  subscribers.sort((a, b) => b.subscription.createdAt - a.subscription.createdAt);
+  return NextResponse.json({ subscribers });
+}
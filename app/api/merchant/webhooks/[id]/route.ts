@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { removeEndpoint } from '../../../../lib/subscription/server/webhooks';
+import { isMerchantRequest } from '../../../../lib/subscription/server/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE stops sending to an endpoint; its past deliveries stay in the log
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Merchant authorization required' }, { status: 401 });
+  }
+  const { id } = await params;
+  const removed = await removeEndpoint(id);
+  return removed
+    ? new NextResponse(null, { status: 204 })
+    : NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+}
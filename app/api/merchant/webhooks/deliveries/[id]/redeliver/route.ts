@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { redeliver } from '../../../../../../lib/subscription/server/webhooks';
+import { isMerchantRequest } from '../../../../../../lib/subscription/server/sessions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST sends a delivery again right away and returns it with the new attempt
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Merchant authorization required' }, { status: 401 });
+  }
+  const { id } = await params;
+  const delivery = await redeliver(id);
+  return delivery
+    ? NextResponse.json({ delivery })
+    : NextResponse.json({ error: 'Delivery not found or already being sent' }, { status: 404 });
+}
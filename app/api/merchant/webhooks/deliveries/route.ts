@@ -0,0 +1,14 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { listDeliveries, processDueDeliveries } from '../../../../lib/subscription/server/webhooks';
+import { isMerchantRequest } from '../../../../lib/subscription/server/sessions';
+
+// GET returns the delivery log, newest first. Reading it also picks up retries that
+// came due while the server was down.
+export async function GET(request: NextRequest) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Merchant authorization required' }, { status: 401 });
+  }
+  processDueDeliveries().catch((error) => console.error('Error retrying webhooks:', error));
+  const deliveries = await listDeliveries();
+  return NextResponse.json({ deliveries });
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from '../../../lib/subscription/webhooks';
+import { checkWebhookUrl, listEndpoints, maskSecret, registerEndpoint } from '../../../lib/subscription/server/webhooks';
+import { isMerchantRequest } from '../../../lib/subscription/server/sessions';
+
+// GET lists registered endpoints, with their secrets masked
+export async function GET(request: NextRequest) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Merchant authorization required' }, { status: 401 });
+  }
+  const endpoints = await listEndpoints();
+  return NextResponse.json({ endpoints: endpoints.map(maskSecret) });
+}
+
+// POST { url, events? } registers an endpoint; the response is the only time its secret is shown
+export async function POST(request: NextRequest) {
+  if (!isMerchantRequest(request)) {
+    return NextResponse.json({ error: 'Merchant authorization required' }, { status: 401 });
+  }
+  const body: { url?: string; events?: string[] } = await request.json().catch(() => ({}));
+
+  const refused = await checkWebhookUrl(body.url ?? '');
+  if (refused) {
+    return NextResponse.json({ error: refused }, { status: 400 });
+  }
+  const url = new URL(body.url ?? '');
+
+  const events = body.events ?? [...WEBHOOK_EVENT_TYPES];
+  const unknown = events.filter((event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+  if (events.length === 0 || unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown webhook events: ${unknown.join(', ') || 'none given'}` }, { status: 400 });
+  }
+
+  const endpoint = await registerEndpoint(url.toString(), events as WebhookEventType[]);
+  return NextResponse.json({ endpoint }, { status: 201 });
+}
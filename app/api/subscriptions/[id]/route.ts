@@ -0,0 +1,96 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { Subscription } from '../../../lib/subscription/types';
+import { validateSubscription } from '../../../lib/subscription/schema';
+import { getServerSubscriptionStore } from '../../../lib/subscription/server/fileStore';
+import { isAuthorizedFor } from '../../../lib/subscription/server/sessions';
+import { assignInvoiceNumbers } from '../../../lib/subscription/server/invoiceNumbers';
+import { checkDiscount } from '../../../lib/subscription/server/redemptions';
+import { notifySubscriptionChange } from '../../../lib/subscription/server/webhooks';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+
+// GET ?wallet= returns one subscription to the wallet it belongs to
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const walletAddress = request.nextUrl.searchParams.get('wallet');
+  if (!walletAddress) {
+    return NextResponse.json({ error: 'wallet is required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  const subscription = await getServerSubscriptionStore().get(walletAddress, id);
+  return subscription ? NextResponse.json({ subscription }) : notFound();
+}
+
+// PATCH { walletAddress, set, unset } updates fields; unset names fields to remove
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body: { walletAddress?: string; set?: Partial<Subscription>; unset?: string[] } = await request
+    .json()
+    .catch(() => ({}));
+  const { walletAddress, set = {}, unset = [] } = body;
+  if (!walletAddress) {
+    return NextResponse.json({ error: 'walletAddress is required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  const updates: Partial<Subscription> = { ...set };
+  unset.forEach((key) => Object.assign(updates, { [key]: undefined }));
+  delete updates.id;
+
+  const store = getServerSubscriptionStore();
+  const previous = await store.get(walletAddress, id);
+  if (!previous) return notFound();
+
+  // The stored record must stay valid and stay with this wallet after the change
+  const merged = { ...previous, ...updates };
+  const problems = validateSubscription(merged);
+  if (merged.walletAddress !== walletAddress) problems.push('walletAddress does not match the wallet');
+  if (problems.length > 0) {
+    return NextResponse.json({ error: `Invalid subscription: ${problems.join('; ')}` }, { status: 400 });
+  }
+  const discountProblem = await checkDiscount(id, updates.discount, previous.discount);
+  if (discountProblem) {
+    return NextResponse.json({ error: discountProblem }, { status: 400 });
+  }
+
+  if (updates.paymentHistory) {
+    updates.paymentHistory = await assignInvoiceNumbers(updates.paymentHistory);
+  }
+  const subscription = await store.update(walletAddress, id, updates);
+  if (!subscription) return notFound();
+
+  notifySubscriptionChange(walletAddress, previous, subscription);
+  return NextResponse.json({ subscription });
+}
+
+// DELETE ?wallet= cancels the subscription; the record is kept for its payment history
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const walletAddress = request.nextUrl.searchParams.get('wallet');
+  if (!walletAddress) {
+    return NextResponse.json({ error: 'wallet is required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  const store = getServerSubscriptionStore();
+  const previous = await store.get(walletAddress, id);
+  const subscription = await store.update(walletAddress, id, {
+    status: 'cancelled',
+    cancellationDate: Date.now(),
+  });
+  if (!previous || !subscription) return notFound();
+
+  notifySubscriptionChange(walletAddress, previous, subscription);
+  return NextResponse.json({ subscription });
+}
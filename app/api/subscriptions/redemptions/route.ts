@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { isAuthorizedFor } from '../../../lib/subscription/server/sessions';
+import { claimRedemption, releaseRedemption } from '../../../lib/subscription/server/redemptions';
+
+// POST { walletAddress, code, subscriptionId } holds one of the coupon's redemptions for the
+// subscription, or answers 409 when the coupon has run out or expired
+export async function POST(request: NextRequest) {
+  const body: { walletAddress?: string; code?: string; subscriptionId?: string } = await request
+    .json()
+    .catch(() => ({}));
+  const { walletAddress, code, subscriptionId } = body;
+  if (!walletAddress || !code || !subscriptionId) {
+    return NextResponse.json({ error: 'walletAddress, code and subscriptionId are required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  const refused = await claimRedemption(code, walletAddress, subscriptionId);
+  if (refused) {
+    return NextResponse.json({ error: refused }, { status: 409 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
+
+// DELETE ?wallet=&code=&subscription= gives back a redemption whose checkout was never paid
+export async function DELETE(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const walletAddress = params.get('wallet');
+  const code = params.get('code');
+  const subscriptionId = params.get('subscription');
+  if (!walletAddress || !code || !subscriptionId) {
+    return NextResponse.json({ error: 'wallet, code and subscription are required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  await releaseRedemption(code, walletAddress, subscriptionId);
+  return new NextResponse(null, { status: 204 });
+}
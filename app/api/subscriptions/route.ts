@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { Subscription } from '../../lib/subscription/types';
+import { validateSubscription } from '../../lib/subscription/schema';
+import { getServerSubscriptionStore } from '../../lib/subscription/server/fileStore';
+import { isAuthorizedFor } from '../../lib/subscription/server/sessions';
+import { assignInvoiceNumbers } from '../../lib/subscription/server/invoiceNumbers';
+import { checkDiscount } from '../../lib/subscription/server/redemptions';
+import { notifySubscriptionChange } from '../../lib/subscription/server/webhooks';
+
+// GET ?wallet= lists a wallet's subscriptions, payment history included, to that wallet only
+export async function GET(request: NextRequest) {
+  const walletAddress = request.nextUrl.searchParams.get('wallet');
+  if (!walletAddress) {
+    return NextResponse.json({ error: 'wallet is required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  const subscriptions = await getServerSubscriptionStore().list(walletAddress);
+  return NextResponse.json({ subscriptions });
+}
+
+// POST { walletAddress, subscription } creates a subscription
+export async function POST(request: NextRequest) {
+  const body: { walletAddress?: string; subscription?: Subscription } = await request.json().catch(() => ({}));
+  const { walletAddress, subscription } = body;
+  if (!walletAddress || !subscription?.id || !subscription.planId) {
+    return NextResponse.json({ error: 'walletAddress and subscription are required' }, { status: 400 });
+  }
+  const problems = validateSubscription(subscription);
+  if (problems.length > 0) {
+    return NextResponse.json({ error: `Invalid subscription: ${problems.join('; ')}` }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+  // A session for one wallet can't file a subscription under another
+  if (subscription.walletAddress !== walletAddress) {
+    return NextResponse.json({ error: 'subscription.walletAddress does not match walletAddress' }, { status: 400 });
+  }
+  const discountProblem = await checkDiscount(subscription.id, subscription.discount);
+  if (discountProblem) {
+    return NextResponse.json({ error: discountProblem }, { status: 400 });
+  }
+
+  subscription.paymentHistory = await assignInvoiceNumbers(subscription.paymentHistory);
+  try {
+    await getServerSubscriptionStore().add(walletAddress, subscription);
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    return NextResponse.json({ error: 'Subscription already exists' }, { status: 409 });
+  }
+  notifySubscriptionChange(walletAddress, undefined, subscription);
+  return NextResponse.json({ subscription }, { status: 201 });
+}
+
+// DELETE ?wallet= removes every subscription of a wallet
+export async function DELETE(request: NextRequest) {
+  const walletAddress = request.nextUrl.searchParams.get('wallet');
+  if (!walletAddress) {
+    return NextResponse.json({ error: 'wallet is required' }, { status: 400 });
+  }
+  if (!isAuthorizedFor(request, walletAddress)) {
+    return NextResponse.json({ error: 'Not authorized for this wallet' }, { status: 401 });
+  }
+
+  await getServerSubscriptionStore().clear(walletAddress);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { SessionRequest } from '../../../lib/subscription/apiAuth';
+import { createSession } from '../../../lib/subscription/server/sessions';
+
+// POST a signed session message; the returned token authorises the wallet's writes
+export async function POST(request: NextRequest) {
+  const body: Partial<SessionRequest> = await request.json().catch(() => ({}));
+  const { walletAddress, walletDevice, issuedAt, signature, signedPayload } = body;
+  if (!walletAddress || !walletDevice || typeof issuedAt !== 'number' || !signature || !signedPayload) {
+    return NextResponse.json({ error: 'A signed session message is required' }, { status: 400 });
+  }
+
+  try {
+    const session = await createSession({ walletAddress, walletDevice, issuedAt, signature, signedPayload });
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('Error creating subscription session:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid signature' }, { status: 401 });
+  }
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { RefreshCw, Search } from 'lucide-react';
+import type { SubscriptionStatus } from '../lib/subscription/types';
+import { getPlanName } from '../lib/subscription/catalog';
+import { getPriceUnit } from '../lib/subscription/pricing';
+import { formatDate } from '../lib/subscription/utils';
+import {
+  countSubscriberWallets,
+  filterSubscribers,
+  getLifetimePaid,
+  getRevenueByUnit,
+  type SubscriberFilter,
+} from '../lib/subscription/merchant';
+import { useMerchantSubscribers } from '../hooks/useMerchantSubscribers';
+import { Input } from './ui/input';
+import RevenueAnalytics from './RevenueAnalytics';
+import WebhookSettings from './WebhookSettings';
+
+const STATUS_FILTERS: (SubscriptionStatus | 'all')[] = [
+  'all',
+  'active',
+  'trialing',
+  'past_due',
+  'paused',
+  'cancelled',
+  'expired',
+];
+
+// Statuses that still have a renewal ahead of them
+const BILLED_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due'];
+
+const formatStatus = (status: string) => status.replace('_', ' ');
+
+const getStatusBadge = (status: SubscriptionStatus) => {
+  switch (status) {
+    case 'active':
+      return 'bg-green-500/20 text-green-400 border-green-500/30';
+    case 'trialing':
+      return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
+    case 'past_due':
+      return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
+    case 'paused':
+      return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+    case 'cancelled':
+      return 'bg-red-500/20 text-red-400 border-red-500/30';
+    default:
+      return 'bg-secondary/20 text-secondary border-secondary/30';
+  }
+};
+
+export default function MerchantDashboard() {
+  const { subscribers, isLoading, error, refresh } = useMerchantSubscribers();
+  const [filter, setFilter] = useState<SubscriberFilter>({ status: 'all', query: '' });
+
+  const visibleSubscribers = useMemo(() => filterSubscribers(subscribers, filter), [subscribers, filter]);
+  const revenue = useMemo(() => getRevenueByUnit(subscribers), [subscribers]);
+  const activeCount = subscribers.filter(({ subscription }) => subscription.status === 'active').length;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="glass rounded-lg p-4">
+          <div className="text-sm text-secondary">Subscribers</div>
+          <div className="text-2xl font-bold text-primary-text">{countSubscriberWallets(subscribers)}</div>
+        </div>
+        <div className="glass rounded-lg p-4">
+          <div className="text-sm text-secondary">Active subscriptions</div>
+          <div className="text-2xl font-bold text-primary-text">{activeCount}</div>
+        </div>
+        <div className="glass rounded-lg p-4">
+          <div className="text-sm text-secondary">Lifetime revenue</div>
+          <div className="text-2xl font-bold gradient-text">
+            {Object.keys(revenue).length === 0
+              ? '0'
+              : Object.entries(revenue)
+                  .map(([unit, total]) => `${total} ${unit}`)
+                  .join(' · ')}
+          </div>
+        </div>
+      </div>
+
+      {subscribers.length > 0 && <RevenueAnalytics subscribers={subscribers} />}
+
+      <div className="glass-strong rounded-2xl p-4 sm:p-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={filter.query}
+              onChange={(e) => setFilter((prev) => ({ ...prev, query: e.target.value }))}
+              placeholder="Search by wallet address"
+              className="pl-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map((status) => (
+              <button
+                key={status}
+                onClick={() => setFilter((prev) => ({ ...prev, status }))}
+                className={`py-1 px-3 rounded-lg text-sm capitalize transition-colors ${
+                  filter.status === status
+                    ? 'bg-gradient-to-r from-cyan-500/20 to-purple-600/20 text-primary-text'
+                    : 'glass text-secondary hover:text-primary-text'
+                }`}
+              >
+                {formatStatus(status)}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="py-1 px-3 glass rounded-lg text-sm text-cyan-400 hover:bg-cyan-500/10 transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        {isLoading && subscribers.length === 0 ? (
+          <div className="py-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="text-secondary mt-4">Loading subscribers...</p>
+          </div>
+        ) : visibleSubscribers.length === 0 ? (
+          <div className="py-8 text-center">
+            <p className="text-secondary">
+              {subscribers.length === 0
+                ? 'No subscribers yet. Subscriptions show up here once they are kept on the server (NEXT_PUBLIC_SUBSCRIPTION_STORE=http).'
+                : 'No subscribers match the current filter'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-secondary border-b border-border">
+                  <th className="py-2 pr-4 font-medium">Wallet</th>
+                  <th className="py-2 pr-4 font-medium">Plan</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Next billing</th>
+                  <th className="py-2 font-medium text-right">Lifetime paid</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleSubscribers.map(({ walletAddress, subscription }) => (
+                  <tr key={subscription.id} className="border-b border-border/50 last:border-0">
+                    <td className="py-3 pr-4 font-mono text-primary-text" title={walletAddress}>
+                      {walletAddress.slice(0, 4)}...{walletAddress.slice(-4)}
+                    </td>
+                    <td className="py-3 pr-4 text-primary-text">
+                      {getPlanName(subscription.planId)}
+                      <span className="text-secondary">
+                        {' '}
+                        · {subscription.amount} {getPriceUnit(subscription)}/{subscription.interval}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span
+                        className={`text-xs font-semibold px-2 py-1 rounded border uppercase ${getStatusBadge(subscription.status)}`}
+                      >
+                        {formatStatus(subscription.status)}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-primary-text">
+                      {BILLED_STATUSES.includes(subscription.status) ? formatDate(subscription.nextBillingDate) : '—'}
+                    </td>
+                    <td className="py-3 text-right text-primary-text">
+                      {getLifetimePaid(subscription)} {getPriceUnit(subscription)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <WebhookSettings />
+    </div>
+  );
+}
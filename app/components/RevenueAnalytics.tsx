@@ -0,0 +1,196 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { MerchantSubscriber } from '../lib/subscription/merchant';
+import { getPriceUnit } from '../lib/subscription/pricing';
+import { getMrrSeries, summarizeRevenue, type MrrPoint } from '../lib/subscription/analytics';
+
+const RANGE_OPTIONS = [3, 6, 12];
+const CHART_HEIGHT_PX = 160;
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-US', { maximumFractionDigits: 4 });
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatMonth = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+function MrrChart({ points, unit }: { points: MrrPoint[]; unit: string }) {
+  const max = Math.max(...points.map((point) => point.endMrr), 0);
+
+  return (
+    <div className="flex items-end gap-2" style={{ height: CHART_HEIGHT_PX }}>
+      {points.map((point) => (
+        <div key={point.date} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+          <div
+            className="w-full rounded-t bg-gradient-to-t from-cyan-500/60 to-purple-600/60"
+            style={{ height: max > 0 ? `${(point.endMrr / max) * 100}%` : 0 }}
+            title={`${formatAmount(point.endMrr)} ${unit}`}
+          />
+          <span className="text-xs text-secondary">{formatMonth(point.date)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Gains stack above the baseline and losses below it, both on the same scale
+function MovementsChart({ points, unit }: { points: MrrPoint[]; unit: string }) {
+  const max = Math.max(
+    ...points.map((point) => Math.max(point.newMrr + point.expansionMrr, point.contractionMrr + point.churnedMrr)),
+    0
+  );
+  const scale = (amount: number) => (max > 0 ? `${(amount / max) * 100}%` : 0);
+
+  return (
+    <div className="flex gap-2" style={{ height: CHART_HEIGHT_PX }}>
+      {points.map((point) => (
+        <div key={point.date} className="flex-1 flex flex-col h-full">
+          <div className="flex-1 flex flex-col justify-end">
+            <div
+              className="bg-cyan-500/60"
+              style={{ height: scale(point.expansionMrr) }}
+              title={`Expansion ${formatAmount(point.expansionMrr)} ${unit}`}
+            />
+            <div
+              className="bg-green-500/60"
+              style={{ height: scale(point.newMrr) }}
+              title={`New ${formatAmount(point.newMrr)} ${unit}`}
+            />
+          </div>
+          <div className="border-t border-border" />
+          <div className="flex-1 flex flex-col justify-start">
+            <div
+              className="bg-orange-500/60"
+              style={{ height: scale(point.contractionMrr) }}
+              title={`Contraction ${formatAmount(point.contractionMrr)} ${unit}`}
+            />
+            <div
+              className="bg-red-500/60"
+              style={{ height: scale(point.churnedMrr) }}
+              title={`Churned ${formatAmount(point.churnedMrr)} ${unit}`}
+            />
+          </div>
+          <span className="text-xs text-secondary text-center mt-1">{formatMonth(point.date)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function RevenueAnalytics({ subscribers }: { subscribers: MerchantSubscriber[] }) {
+  const [months, setMonths] = useState(6);
+  const [selectedUnit, setSelectedUnit] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  const subscriptions = useMemo(
+    () => subscribers.map(({ walletAddress, subscription }) => ({ ...subscription, walletAddress })),
+    [subscribers]
+  );
+  const units = useMemo(() => [...new Set(subscriptions.map(getPriceUnit))], [subscriptions]);
+  const unit = selectedUnit && units.includes(selectedUnit) ? selectedUnit : units[0];
+
+  const range = useMemo(() => {
+    const start = new Date(now);
+    start.setUTCMonth(start.getUTCMonth() - months);
+    return { start: start.getTime(), end: now };
+  }, [now, months]);
+
+  const summary = useMemo(
+    () => (unit ? summarizeRevenue(subscriptions, unit, range) : null),
+    [subscriptions, unit, range]
+  );
+  const series = useMemo(
+    () => (unit ? getMrrSeries(subscriptions, unit, range) : []),
+    [subscriptions, unit, range]
+  );
+
+  if (!unit || !summary) return null;
+
+  const metrics = [
+    { label: 'MRR', value: `${formatAmount(summary.endMrr)} ${unit}` },
+    { label: 'Net new MRR', value: `${formatAmount(summary.netNewMrr)} ${unit}` },
+    { label: 'Logo churn', value: formatPercent(summary.logoChurnRate) },
+    { label: 'ARPU', value: `${formatAmount(summary.arpu)} ${unit}` },
+    {
+      label: 'Estimated LTV',
+      value: summary.ltv === null ? 'No churn yet' : `${formatAmount(summary.ltv)} ${unit}`,
+    },
+  ];
+
+  const movements = [
+    { label: 'New', value: summary.newMrr, color: 'text-green-400' },
+    { label: 'Expansion', value: summary.expansionMrr, color: 'text-cyan-400' },
+    { label: 'Contraction', value: -summary.contractionMrr, color: 'text-orange-400' },
+    { label: 'Churned', value: -summary.churnedMrr, color: 'text-red-400' },
+  ];
+
+  return (
+    <div className="glass-strong rounded-2xl p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <h2 className="text-xl font-semibold text-primary-text">Revenue analytics</h2>
+        <div className="flex flex-wrap gap-2">
+          {units.length > 1 &&
+            units.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSelectedUnit(option)}
+                className={`py-1 px-3 rounded-lg text-sm transition-colors ${
+                  option === unit
+                    ? 'bg-gradient-to-r from-cyan-500/20 to-purple-600/20 text-primary-text'
+                    : 'glass text-secondary hover:text-primary-text'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setMonths(option)}
+              className={`py-1 px-3 rounded-lg text-sm transition-colors ${
+                option === months
+                  ? 'bg-gradient-to-r from-cyan-500/20 to-purple-600/20 text-primary-text'
+                  : 'glass text-secondary hover:text-primary-text'
+              }`}
+            >
+              {option}m
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="glass rounded-lg p-3">
+            <div className="text-xs text-secondary">{metric.label}</div>
+            <div className="text-lg font-bold text-primary-text">{metric.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-semibold text-primary-text mb-3">MRR by month</h3>
+          <MrrChart points={series} unit={unit} />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-primary-text mb-3">MRR movements</h3>
+          <MovementsChart points={series} unit={unit} />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs">
+            {movements.map((movement) => (
+              <span key={movement.label} className={movement.color}>
+                {movement.label} {movement.value > 0 ? '+' : ''}
+                {formatAmount(movement.value)} {unit}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-secondary">
+        Over the last {months} months: {summary.customersAtStart} paying customer
+        {summary.customersAtStart === 1 ? '' : 's'} at the start, {summary.churnedCustomers} churned,{' '}
+        {summary.customersAtEnd} paying now. Amounts are normalised to a month and shown in {unit} only.
+      </p>
+    </div>
+  );
+}
@@ -2,46 +2,105 @@
 
 import { useState } from 'react';
 import { useWallet } from '@lazorkit/wallet';
-import { updateSubscription, getSubscriptions } from '../lib/subscription/storage';
-import { calculateNextBillingDate } from '../lib/subscription/utils';
-import type { Subscription, SubscriptionPlanId } from '../lib/subscription/types';
-import { WALLET_EVENTS, dispatchWalletEvent } from '../lib/events/walletEvents';
-
-const PLAN_NAMES: Record<string, string> = {
-  basic: 'Basic',
-  pro: 'Pro',
-  enterprise: 'Enterprise',
-};
+import { Connection } from '@solana/web3.js';
+import { formatDate } from '../lib/subscription/utils';
+import { chargeSubscription } from '../lib/subscription/billing';
+import { calculateProration, applyProratedChange, type ProrationPreview } from '../lib/subscription/proration';
+import { schedulePlanChange } from '../lib/subscription/planChanges';
+import { endTrial } from '../lib/subscription/trials';
+import {
+  getPausePresets,
+  getPauseWindow,
+  getResumedCalendar,
+  pauseEndAfterDays,
+  pauseSubscription,
+  resumeSubscription,
+} from '../lib/subscription/pauses';
+import {
+  calculateCancellationRefund,
+  canReactivate,
+  cancelImmediately,
+  reactivateSubscription,
+  scheduleCancellation,
+} from '../lib/subscription/cancellations';
+import { withSubscriptionLock } from '../lib/subscription/locks';
+import {
+  getCurrentPlans,
+  getPlan,
+  getPlanName,
+  getPlanPrice,
+  type SubscriptionPlan,
+} from '../lib/subscription/catalog';
+import { FAILURE_REASON_LABELS } from '../lib/subscription/dunning';
+import { getPriceUnit, isSamePricing } from '../lib/subscription/pricing';
+import { RPC_URL } from '../lib/subscription/config';
+import type { Subscription } from '../lib/subscription/types';
 
 interface SubscriptionActionsProps {
   subscription: Subscription;
   onUpdate: () => void;
 }
 
+// How long to pause for: a number of days, or until a day picked in the date input (YYYY-MM-DD)
+type PauseChoice = { days: number } | { date: string };
+
+function formatPauseLength(days: number): string {
+  if (days % 7 === 0 && days < 28) return days === 7 ? '1 week' : `${days / 7} weeks`;
+  return `${days} days`;
+}
+
+function toDateInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+}
+
+// A pause until a picked day ends at the current time of day, kept inside the allowed window
+function getPauseEnd(choice: PauseChoice, pauseWindow: { earliest: number; latest: number }, now: number): number {
+  if ('days' in choice) return pauseEndAfterDays(choice.days, now);
+  const [year, month, day] = choice.date.split('-').map(Number);
+  const end = new Date(now);
+  end.setFullYear(year, month - 1, day);
+  return Math.min(Math.max(end.getTime(), pauseWindow.earliest), pauseWindow.latest);
+}
+
 export default function SubscriptionActions({ subscription, onUpdate }: SubscriptionActionsProps) {
-  const { smartWalletPubkey } = useWallet();
+  const { smartWalletPubkey, signAndSendTransaction } = useWallet();
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [planChangePreview, setPlanChangePreview] = useState<ProrationPreview | null>(null);
+  const [isChoosingPause, setIsChoosingPause] = useState(false);
+  const [isChoosingCancel, setIsChoosingCancel] = useState(false);
+  const [pauseChoice, setPauseChoice] = useState<PauseChoice | null>(null);
 
-  const handleCancel = () => {
-    if (!confirm(`Are you sure you want to cancel your ${PLAN_NAMES[subscription.planId]} subscription?`)) {
-      return;
+  const handleCancelAtPeriodEnd = async () => {
+    if (!smartWalletPubkey) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      await scheduleCancellation(smartWalletPubkey.toString(), subscription);
+      setIsChoosingCancel(false);
+      onUpdate();
+    } catch (err) {
+      setError('Failed to cancel subscription');
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
     }
+  };
 
+  const handleCancelNow = async () => {
     if (!smartWalletPubkey) return;
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      updateSubscription(smartWalletPubkey.toString(), subscription.id, {
-        status: 'cancelled',
-        cancellationDate: Date.now(),
-      });
-      dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
-        subscriptionId: subscription.id,
-        action: 'cancelled',
-      });
+      await cancelImmediately(smartWalletPubkey.toString(), subscription);
+      setIsChoosingCancel(false);
       onUpdate();
     } catch (err) {
       setError('Failed to cancel subscription');
@@ -51,76 +110,166 @@ export default function SubscriptionActions({ subscription, onUpdate }: Subscrip
     }
   };
 
-  const handlePause = () => {
+  // Past due subscriptions have no paid time left to keep, so they are cancelled outright
+  const handleCancelPastDue = async () => {
+    if (!confirm(`Are you sure you want to cancel your ${getPlanName(subscription.planId)} subscription?`)) {
+      return;
+    }
+    await handleCancelNow();
+  };
+
+  const handleReactivate = async () => {
     if (!smartWalletPubkey) return;
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      const pausedUntil = calculateNextBillingDate(Date.now());
-      updateSubscription(smartWalletPubkey.toString(), subscription.id, {
-        status: 'paused',
-        pausedUntil,
-      });
-      dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
-        subscriptionId: subscription.id,
-        action: 'paused',
-      });
+      await reactivateSubscription(smartWalletPubkey.toString(), subscription);
+      onUpdate();
+    } catch (err) {
+      setError('Failed to reactivate subscription');
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePause = async () => {
+    if (!smartWalletPubkey || !pauseChoice) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const now = Date.now();
+      const pausedUntil = getPauseEnd(pauseChoice, getPauseWindow(subscription, now), now);
+      await pauseSubscription(smartWalletPubkey.toString(), subscription, pausedUntil, now);
+      setIsChoosingPause(false);
+      setPauseChoice(null);
       onUpdate();
     } catch (err) {
-      setError('Failed to pause subscription');
+      setError(err instanceof Error ? `Failed to pause subscription: ${err.message}` : 'Failed to pause subscription');
       console.error(err);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleResume = () => {
+  const handleResume = async () => {
     if (!smartWalletPubkey) return;
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      const nextBillingDate = calculateNextBillingDate(Date.now());
-      updateSubscription(smartWalletPubkey.toString(), subscription.id, {
-        status: 'active',
-        pausedUntil: undefined,
-        nextBillingDate,
-      });
-      dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
-        subscriptionId: subscription.id,
-        action: 'resumed',
+      await resumeSubscription(smartWalletPubkey.toString(), subscription);
+      onUpdate();
+    } catch (err) {
+      setError(err instanceof Error ? `Failed to resume subscription: ${err.message}` : 'Failed to resume subscription');
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePayNow = async () => {
+    if (!smartWalletPubkey || !signAndSendTransaction) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const result = await chargeSubscription(subscription, {
+        walletAddress: smartWalletPubkey.toString(),
+        payer: smartWalletPubkey,
+        signAndSendTransaction,
+        connection: new Connection(RPC_URL, 'confirmed'),
       });
+      if (result.status === 'failed') {
+        setError(
+          `Payment failed: ${result.failureReason ? FAILURE_REASON_LABELS[result.failureReason] : result.error}`
+        );
+      } else if (result.status === 'skipped') {
+        // Paid, retried or changed in another tab since this card was loaded
+        setError('Nothing was charged: this subscription was updated in another tab. Check its status below.');
+      }
       onUpdate();
     } catch (err) {
-      setError('Failed to resume subscription');
+      setError('Failed to process payment');
       console.error(err);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleUpgrade = (newPlanId: SubscriptionPlanId) => {
+  const handleEndTrial = async () => {
+    if (!confirm(`End your ${getPlanName(subscription.planId)} trial now? You won't be charged.`)) {
+      return;
+    }
+
     if (!smartWalletPubkey) return;
 
-    if (!confirm(`Upgrade from ${PLAN_NAMES[subscription.planId]} to ${PLAN_NAMES[newPlanId]}?`)) {
-      return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const walletAddress = smartWalletPubkey.toString();
+      await withSubscriptionLock(walletAddress, subscription.id, () => endTrial(walletAddress, subscription));
+      onUpdate();
+    } catch (err) {
+      setError('Failed to end trial');
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
     }
+  };
+
+  const handlePreviewPlanChange = (newPlan: SubscriptionPlan) => {
+    setPlanChangePreview(calculateProration(subscription, newPlan));
+  };
+
+  const handleConfirmPlanChange = async () => {
+    if (!smartWalletPubkey || !signAndSendTransaction || !planChangePreview) return;
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      // In a real implementation, you'd create a new subscription and cancel the old one
-      // For this demo, we'll just update the plan
-      updateSubscription(smartWalletPubkey.toString(), subscription.id, {
-        planId: newPlanId,
+      // Re-quote at confirmation time so the charge matches the moment of signing
+      const newPlan = getPlan(planChangePreview.toPlanId, planChangePreview.toPlanVersion);
+      if (!newPlan) throw new Error('Plan is no longer available');
+      const preview = calculateProration(subscription, newPlan);
+      await applyProratedChange(subscription, preview, {
+        walletAddress: smartWalletPubkey.toString(),
+        payer: smartWalletPubkey,
+        signAndSendTransaction,
+        connection: new Connection(RPC_URL, 'confirmed'),
       });
+      setPlanChangePreview(null);
       onUpdate();
     } catch (err) {
-      setError('Failed to upgrade subscription');
+      setError('Failed to change subscription plan');
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSchedulePlanChange = async () => {
+    if (!smartWalletPubkey || !planChangePreview) return;
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const newPlan = getPlan(planChangePreview.toPlanId, planChangePreview.toPlanVersion);
+      if (!newPlan) throw new Error('Plan is no longer available');
+      await schedulePlanChange(smartWalletPubkey.toString(), subscription, newPlan);
+      setPlanChangePreview(null);
+      onUpdate();
+    } catch (err) {
+      setError('Failed to schedule plan change');
       console.error(err);
     } finally {
       setIsProcessing(false);
@@ -135,19 +284,241 @@ export default function SubscriptionActions({ subscription, onUpdate }: Subscrip
     );
   }
 
+  if (isChoosingCancel) {
+    const priceUnit = getPriceUnit(subscription);
+    const refund = calculateCancellationRefund(subscription);
+    return (
+      <div className="space-y-2" data-testid="cancel-options">
+        <button
+          onClick={handleCancelAtPeriodEnd}
+          disabled={isProcessing}
+          className="w-full p-3 glass rounded-lg text-left text-sm hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          <span className="block font-semibold text-primary-text">Cancel at period end</span>
+          <span className="block text-xs text-secondary">
+            Keep access until {formatDate(subscription.nextBillingDate)}. You won&apos;t be charged again.
+          </span>
+        </button>
+        <button
+          onClick={handleCancelNow}
+          disabled={isProcessing}
+          className="w-full p-3 glass rounded-lg text-left text-sm hover:bg-red-500/10 transition-colors disabled:opacity-50"
+        >
+          <span className="block font-semibold text-red-400">Cancel now</span>
+          <span className="block text-xs text-secondary">
+            {refund
+              ? `Access ends today. You'll be refunded ${refund.amount} ${priceUnit} for the unused time${refund.creditRefunded ? ' and account credit' : ''}.`
+              : 'Access ends today. There is no unused time to refund.'}
+          </span>
+        </button>
+        <button
+          onClick={() => setIsChoosingCancel(false)}
+          disabled={isProcessing}
+          className="w-full py-2 px-4 glass rounded-lg text-sm text-secondary hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          {isProcessing ? 'Processing...' : 'Back'}
+        </button>
+      </div>
+    );
+  }
+
+  if (isChoosingPause) {
+    const now = Date.now();
+    const pauseWindow = getPauseWindow(subscription, now);
+    const resumesAt = pauseChoice ? getPauseEnd(pauseChoice, pauseWindow, now) : null;
+    // The paid time left now is kept, so the next renewal moves later by the pause length
+    const renewsAt =
+      resumesAt !== null ? getResumedCalendar({ ...subscription, pausedAt: now }, resumesAt).nextBillingDate : null;
+    return (
+      <div className="space-y-2">
+        <div className="p-3 glass rounded-lg space-y-2 text-sm" data-testid="pause-options">
+          <p className="font-semibold text-primary-text">Pause {getPlanName(subscription.planId)} for</p>
+          <div className="grid grid-cols-3 gap-2">
+            {getPausePresets(subscription).map((days) => (
+              <button
+                key={days}
+                onClick={() => setPauseChoice({ days })}
+                disabled={isProcessing}
+                className={`py-1 px-2 rounded text-xs border transition-colors disabled:opacity-50 ${
+                  pauseChoice && 'days' in pauseChoice && pauseChoice.days === days
+                    ? 'border-yellow-500/50 bg-yellow-500/10 text-yellow-400'
+                    : 'border-border text-primary-text hover:bg-white/10'
+                }`}
+              >
+                {formatPauseLength(days)}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-secondary">Or until</span>
+            <input
+              type="date"
+              min={toDateInputValue(pauseWindow.earliest)}
+              max={toDateInputValue(pauseWindow.latest)}
+              value={pauseChoice && 'date' in pauseChoice ? pauseChoice.date : ''}
+              onChange={(e) => setPauseChoice(e.target.value ? { date: e.target.value } : null)}
+              disabled={isProcessing}
+              className="bg-transparent border border-border rounded px-2 py-1 text-primary-text"
+            />
+          </label>
+          <p className="text-xs text-secondary">
+            {resumesAt !== null && renewsAt !== null
+              ? `Resumes automatically on ${formatDate(resumesAt)}. Your paid time left carries over, so the next renewal moves to ${formatDate(renewsAt)}.`
+              : `You won't be charged while paused. Resume early at any time.`}
+          </p>
+        </div>
+        <button
+          onClick={handlePause}
+          disabled={isProcessing || !pauseChoice}
+          className="w-full py-2 px-4 glass rounded-lg text-sm text-yellow-400 hover:bg-yellow-500/10 transition-colors disabled:opacity-50"
+        >
+          {isProcessing ? 'Processing...' : 'Confirm Pause'}
+        </button>
+        <button
+          onClick={() => {
+            setIsChoosingPause(false);
+            setPauseChoice(null);
+          }}
+          disabled={isProcessing}
+          className="w-full py-2 px-4 glass rounded-lg text-sm text-secondary hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          Back
+        </button>
+      </div>
+    );
+  }
+
+  if (planChangePreview) {
+    const isUpgrade = planChangePreview.amountDue > 0;
+    const priceUnit = getPriceUnit(subscription);
+    return (
+      <div className="space-y-2">
+        <div className="p-3 glass rounded-lg space-y-1 text-sm" data-testid="proration-preview">
+          <p className="font-semibold text-primary-text mb-2">
+            {getPlanName(planChangePreview.fromPlanId)} → {getPlanName(planChangePreview.toPlanId)}
+          </p>
+          <div className="flex justify-between">
+            <span className="text-secondary">Unused {getPlanName(planChangePreview.fromPlanId)} time:</span>
+            <span className="text-primary-text">-{planChangePreview.unusedCredit} {priceUnit}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-secondary">{getPlanName(planChangePreview.toPlanId)} until {formatDate(planChangePreview.periodEnd)}:</span>
+            <span className="text-primary-text">{planChangePreview.newPlanCost} {priceUnit}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span className="text-secondary">{isUpgrade ? 'Due now:' : 'Credit to your account:'}</span>
+            <span className={isUpgrade ? 'text-primary-text' : 'text-green-400'}>
+              {isUpgrade ? planChangePreview.amountDue : planChangePreview.creditIssued} {priceUnit}
+            </span>
+          </div>
+          <p className="text-xs text-secondary pt-1">
+            Renews at {planChangePreview.newAmount} {priceUnit} per {subscription.interval} on {formatDate(planChangePreview.periodEnd)}
+          </p>
+        </div>
+        <button
+          onClick={handleConfirmPlanChange}
+          disabled={isProcessing}
+          className="w-full py-2 px-4 glass rounded-lg text-sm text-cyan-400 hover:bg-cyan-500/10 transition-colors disabled:opacity-50"
+        >
+          {isProcessing ? 'Processing...' : isUpgrade ? 'Confirm & Pay with Passkey' : 'Confirm Change'}
+        </button>
+        <button
+          onClick={handleSchedulePlanChange}
+          disabled={isProcessing}
+          className="w-full py-2 px-4 glass rounded-lg text-sm text-primary-text hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          Switch on {formatDate(planChangePreview.periodEnd)} instead
+        </button>
+        <button
+          onClick={() => setPlanChangePreview(null)}
+          disabled={isProcessing}
+          className="w-full py-2 px-4 glass rounded-lg text-sm text-secondary hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          Back
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-2">
-      {subscription.status === 'active' && (
+      {subscription.status === 'active' && subscription.cancelAtPeriodEnd && (
         <>
+          <p className="text-xs text-secondary text-center">
+            Cancels on {formatDate(subscription.nextBillingDate)}. You won&apos;t be charged again.
+          </p>
           <button
-            onClick={handlePause}
+            onClick={handleReactivate}
+            disabled={isProcessing}
+            className="w-full py-2 px-4 glass rounded-lg text-sm text-green-400 hover:bg-green-500/10 transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Processing...' : 'Keep Subscription'}
+          </button>
+        </>
+      )}
+
+      {subscription.status === 'active' && !subscription.cancelAtPeriodEnd && (
+        <>
+          {getCurrentPlans()
+            .filter((plan) => plan.id !== subscription.planId)
+            .filter((plan) => isSamePricing(plan, subscription))
+            .map((plan) => (
+              <button
+                key={plan.id}
+                onClick={() => handlePreviewPlanChange(plan)}
+                disabled={isProcessing}
+                className="w-full py-2 px-4 glass rounded-lg text-sm text-cyan-400 hover:bg-cyan-500/10 transition-colors disabled:opacity-50"
+              >
+                {getPlanPrice(plan, subscription.interval) > subscription.amount ? 'Upgrade' : 'Switch'} to {plan.name}
+              </button>
+            ))}
+          <button
+            onClick={() => setIsChoosingPause(true)}
             disabled={isProcessing}
             className="w-full py-2 px-4 glass rounded-lg text-sm text-yellow-400 hover:bg-yellow-500/10 transition-colors disabled:opacity-50"
           >
             {isProcessing ? 'Processing...' : 'Pause Subscription'}
           </button>
           <button
-            onClick={handleCancel}
+            onClick={() => setIsChoosingCancel(true)}
+            disabled={isProcessing}
+            className="w-full py-2 px-4 glass rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Processing...' : 'Cancel Subscription'}
+          </button>
+        </>
+      )}
+
+      {subscription.status === 'trialing' && (
+        <>
+          <button
+            onClick={handlePayNow}
+            disabled={isProcessing}
+            className="w-full py-2 px-4 glass rounded-lg text-sm text-cyan-400 hover:bg-cyan-500/10 transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Processing...' : 'Start Paid Plan Now'}
+          </button>
+          <button
+            onClick={handleEndTrial}
+            disabled={isProcessing}
+            className="w-full py-2 px-4 glass rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Processing...' : 'End Trial'}
+          </button>
+        </>
+      )}
+
+      {subscription.status === 'past_due' && (
+        <>
+          <button
+            onClick={handlePayNow}
+            disabled={isProcessing}
+            className="w-full py-2 px-4 glass rounded-lg text-sm text-orange-400 hover:bg-orange-500/10 transition-colors disabled:opacity-50"
+          >
+            {isProcessing ? 'Processing...' : 'Pay Now'}
+          </button>
+          <button
+            onClick={handleCancelPastDue}
             disabled={isProcessing}
             className="w-full py-2 px-4 glass rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
           >
@@ -166,8 +537,32 @@ export default function SubscriptionActions({ subscription, onUpdate }: Subscrip
         </button>
       )}
 
-      {subscription.status === 'cancelled' && (
-        <p className="text-xs text-secondary text-center">This subscription has been cancelled</p>
+      {subscription.status === 'cancelled' &&
+        (canReactivate(subscription) ? (
+          <>
+            <p className="text-xs text-secondary text-center">
+              Reactivate before {formatDate(subscription.nextBillingDate)} to pick up where you left off, at no charge.
+            </p>
+            <button
+              onClick={handleReactivate}
+              disabled={isProcessing}
+              className="w-full py-2 px-4 glass rounded-lg text-sm text-green-400 hover:bg-green-500/10 transition-colors disabled:opacity-50"
+            >
+              {isProcessing ? 'Processing...' : 'Reactivate Subscription'}
+            </button>
+          </>
+        ) : (
+          <p className="text-xs text-secondary text-center">This subscription has been cancelled</p>
+        ))}
+
+      {subscription.status === 'expired' && (
+        <p className="text-xs text-secondary text-center">
+          {subscription.cancellationDate !== undefined
+            ? `This subscription was cancelled and ended on ${formatDate(subscription.cancellationDate)}`
+            : subscription.trialEndsAt !== undefined && !subscription.paymentHistory.some((p) => p.status === 'success')
+              ? 'This trial ended without converting to a paid plan'
+              : 'This subscription expired after unpaid renewals'}
+        </p>
       )}
     </div>
   );
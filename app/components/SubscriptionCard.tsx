@@ -1,21 +1,22 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useWallet } from '@lazorkit/wallet';
-import { updateSubscription } from '../lib/subscription/storage';
-import { formatDate, calculateNextBillingDate } from '../lib/subscription/utils';
+import { formatDate, calculateNextBillingDate, formatCountdown } from '../lib/subscription/utils';
+import { FAILURE_REASON_LABELS } from '../lib/subscription/dunning';
+import { withdrawPlanChange } from '../lib/subscription/planChanges';
+import { getResumedCalendar } from '../lib/subscription/pauses';
+import { describeDiscount } from '../lib/subscription/coupons';
+import { getPlan, getPlanName } from '../lib/subscription/catalog';
+import { getPriceUnit } from '../lib/subscription/pricing';
+import { DUNNING_CONFIG } from '../lib/subscription/config';
 import type { Subscription } from '../lib/subscription/types';
 import SubscriptionActions from './SubscriptionActions';
 import SubscriptionPaymentHistory from './SubscriptionPaymentHistory';
+import SubscriptionUsageMeter from './SubscriptionUsageMeter';
 import SpotlightCard from './SpotlightCard';
 import { useTheme } from '../contexts/ThemeContext';
 
-const PLAN_NAMES: Record<string, string> = {
-  basic: 'Basic',
-  pro: 'Pro',
-  enterprise: 'Enterprise',
-};
-
 interface SubscriptionCardProps {
   subscription: Subscription;
   onUpdate: () => void;
@@ -25,12 +26,41 @@ export default function SubscriptionCard({ subscription, onUpdate }: Subscriptio
   const { smartWalletPubkey } = useWallet();
   const { theme } = useTheme();
   const [showPaymentHistory, setShowPaymentHistory] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const isDark = theme === 'dark';
+  const priceUnit = getPriceUnit(subscription);
+  const isPastDue = subscription.status === 'past_due';
+  const isTrialing = subscription.status === 'trialing';
+  const isPaused = subscription.status === 'paused';
+  const latestPlanVersion = getPlan(subscription.planId)?.version;
+  const subscribedPlanVersion = subscription.planVersion ?? 1;
+  const lastFailure = [...subscription.paymentHistory].reverse().find((p) => p.status === 'failed');
+
+  // Tick the retry, trial or resume countdown while one is shown
+  useEffect(() => {
+    if (!isPastDue && !isTrialing && !isPaused) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [isPastDue, isTrialing, isPaused]);
+
+  const handleWithdrawPlanChange = async () => {
+    if (!smartWalletPubkey) return;
+    try {
+      await withdrawPlanChange(smartWalletPubkey.toString(), subscription);
+      onUpdate();
+    } catch (err) {
+      console.error('Failed to withdraw plan change:', err);
+    }
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active':
         return 'text-green-400';
+      case 'trialing':
+        return 'text-blue-400';
+      case 'past_due':
+        return 'text-orange-400';
       case 'paused':
         return 'text-yellow-400';
       case 'cancelled':
@@ -44,6 +74,10 @@ export default function SubscriptionCard({ subscription, onUpdate }: Subscriptio
     switch (status) {
       case 'active':
         return 'bg-green-500/20 text-green-400 border-green-500/30';
+      case 'trialing':
+        return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
+      case 'past_due':
+        return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
       case 'paused':
         return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
       case 'cancelled':
@@ -62,21 +96,28 @@ export default function SubscriptionCard({ subscription, onUpdate }: Subscriptio
         <div className="flex items-start justify-between mb-4">
           <div>
             <h3 className="text-xl font-bold text-primary-text mb-1">
-              {PLAN_NAMES[subscription.planId] || subscription.planId}
+              {getPlanName(subscription.planId)}
             </h3>
             <div className="flex items-center gap-2">
               <span className={`text-sm font-semibold px-2 py-1 rounded border ${getStatusBadge(subscription.status)}`}>
-                {subscription.status.toUpperCase()}
+                {subscription.status.replace('_', ' ').toUpperCase()}
               </span>
             </div>
           </div>
           <div className="text-right">
-            <div className="text-2xl font-bold gradient-text">{subscription.amount} SOL</div>
+            <div className="text-2xl font-bold gradient-text">{subscription.amount} {priceUnit}</div>
             <div className="text-xs text-secondary">per {subscription.interval}</div>
           </div>
         </div>
 
         <div className="space-y-3 mb-4 flex-1">
+          {latestPlanVersion !== undefined && subscribedPlanVersion < latestPlanVersion && (
+            <div className="flex justify-between text-sm">
+              <span className="text-secondary">Pricing:</span>
+              <span className="text-primary-text">Kept from plan v{subscribedPlanVersion}</span>
+            </div>
+          )}
+
           <div className="flex justify-between text-sm">
             <span className="text-secondary">Created:</span>
             <span className="text-primary-text">{formatDate(subscription.createdAt)}</span>
@@ -84,8 +125,54 @@ export default function SubscriptionCard({ subscription, onUpdate }: Subscriptio
 
           {subscription.status === 'active' && (
             <div className="flex justify-between text-sm mb-4">
-              <span className="text-secondary">Next billing:</span>
-              <span className="text-primary-text">{formatDate(subscription.nextBillingDate)}</span>
+              <span className="text-secondary">{subscription.cancelAtPeriodEnd ? 'Access ends:' : 'Next billing:'}</span>
+              <span className={subscription.cancelAtPeriodEnd ? 'text-red-400' : 'text-primary-text'}>
+                {formatDate(subscription.nextBillingDate)}
+              </span>
+            </div>
+          )}
+
+          {(subscription.status === 'active' || isPastDue) && (
+            <SubscriptionUsageMeter subscription={subscription} priceUnit={priceUnit} />
+          )}
+
+          {isTrialing && subscription.trialEndsAt !== undefined && (
+            <div className="p-3 mb-4 bg-blue-500/10 border border-blue-500/20 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-secondary">Trial ends:</span>
+                <span className="text-primary-text">
+                  {formatDate(subscription.trialEndsAt)} (in {formatCountdown(subscription.trialEndsAt - now)})
+                </span>
+              </div>
+              <p className="text-xs text-secondary">
+                You&apos;ll be asked to approve the first {subscription.amount} {priceUnit} payment with your passkey when the trial ends.
+              </p>
+            </div>
+          )}
+
+          {isPastDue && (
+            <div className="p-3 mb-4 bg-orange-500/10 border border-orange-500/20 rounded-lg space-y-1 text-sm">
+              {lastFailure?.failureReason && (
+                <p className="text-orange-400">
+                  Last payment failed: {FAILURE_REASON_LABELS[lastFailure.failureReason]}
+                </p>
+              )}
+              <div className="flex justify-between">
+                <span className="text-secondary">Next retry:</span>
+                <span className="text-primary-text">
+                  {subscription.nextRetryAt !== undefined
+                    ? `in ${formatCountdown(subscription.nextRetryAt - now)}`
+                    : 'No retries left'}
+                </span>
+              </div>
+              {subscription.pastDueSince !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-secondary">Expires:</span>
+                  <span className="text-primary-text">
+                    {formatDate(subscription.pastDueSince + DUNNING_CONFIG.gracePeriod)}
+                  </span>
+                </div>
+              )}
             </div>
           )}
 
@@ -96,10 +183,54 @@ export default function SubscriptionCard({ subscription, onUpdate }: Subscriptio
             </div>
           )}
 
-          {subscription.status === 'paused' && subscription.pausedUntil && (
-            <div className="flex justify-between text-sm mb-4">
-              <span className="text-secondary">Paused until:</span>
-              <span className="text-primary-text">{formatDate(subscription.pausedUntil)}</span>
+          {subscription.refund && (
+            <div className="flex justify-between text-sm mb-4" data-testid="cancellation-refund">
+              <span className="text-secondary">Refund:</span>
+              <span className="text-green-400">{subscription.refund.amount} {priceUnit}</span>
+            </div>
+          )}
+
+          {isPaused && subscription.pausedUntil !== undefined && (
+            <div className="p-3 mb-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg space-y-1 text-sm" data-testid="pause-countdown">
+              <div className="flex justify-between">
+                <span className="text-secondary">Resumes:</span>
+                <span className="text-primary-text">
+                  {formatDate(subscription.pausedUntil)} (in {formatCountdown(subscription.pausedUntil - now)})
+                </span>
+              </div>
+              <p className="text-xs text-secondary">
+                Your paid time left carries over, so the next {subscription.amount} {priceUnit} renewal is on{' '}
+                {formatDate(getResumedCalendar(subscription, subscription.pausedUntil).nextBillingDate)}.
+              </p>
+            </div>
+          )}
+
+          {subscription.pendingChange && (
+            <div className="p-3 mb-4 bg-cyan-500/10 border border-cyan-500/20 rounded-lg text-sm" data-testid="pending-plan-change">
+              <p className="text-primary-text">
+                Switching to {getPlanName(subscription.pendingChange.planId)} (
+                {subscription.pendingChange.amount} {priceUnit}) on {formatDate(subscription.pendingChange.effectiveDate)}
+              </p>
+              <button
+                onClick={handleWithdrawPlanChange}
+                className="mt-2 text-xs text-cyan-400 underline hover:text-cyan-300"
+              >
+                Keep current plan
+              </button>
+            </div>
+          )}
+
+          {subscription.discount && (
+            <div className="flex justify-between gap-2 text-sm">
+              <span className="text-secondary">Promo {subscription.discount.couponCode}:</span>
+              <span className="text-green-400 text-right">{describeDiscount(subscription.discount, priceUnit)}</span>
+            </div>
+          )}
+
+          {subscription.creditBalance !== undefined && subscription.creditBalance > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-secondary">Account credit:</span>
+              <span className="text-green-400">{subscription.creditBalance} {priceUnit}</span>
             </div>
           )}
 
@@ -1,78 +1,75 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useWallet } from '@lazorkit/wallet';
-import { SystemProgram, PublicKey, LAMPORTS_PER_SOL, Connection } from '@solana/web3.js';
+import { Connection } from '@solana/web3.js';
 import { Check, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { addSubscription, getSubscriptions } from '../lib/subscription/storage';
-import { generateSubscriptionId, calculateNextBillingDate } from '../lib/subscription/utils';
-import type { Subscription, SubscriptionPlanId } from '../lib/subscription/types';
+import { Input } from './ui/input';
+import {
+  generateSubscriptionId,
+  calculateNextBillingDate,
+  formatDate,
+  roundSol,
+  toLamports,
+} from '../lib/subscription/utils';
+import { calculateTrialEnd, isTrialEligible } from '../lib/subscription/trials';
+import {
+  validateCoupon,
+  appliesToPriceUnit,
+  toAppliedDiscount,
+  calculateDiscountAmount,
+  consumeDiscountCycle,
+  describeDiscount,
+  type Coupon,
+} from '../lib/subscription/coupons';
+import type { AppliedDiscount, BillingInterval, Subscription } from '../lib/subscription/types';
+import { RPC_URL } from '../lib/subscription/config';
+import { sendPayment } from '../lib/subscription/billing';
+import { runCheckout } from '../lib/subscription/checkout';
+import { claimRedemption, releaseRedemption } from '../lib/subscription/redemptions';
+import { getCurrency } from '../lib/subscription/tokens';
+import { getPriceUnit, quoteCharge, type ChargeQuote } from '../lib/subscription/pricing';
+import { createInvoiceReference } from '../lib/subscription/invoices';
+import {
+  BILLING_INTERVALS,
+  INTERVAL_LABELS,
+  getPlanPrice,
+  getIntervalSavings,
+  getCurrentPlans,
+  getPlan,
+  getPlanName,
+} from '../lib/subscription/catalog';
 import { WALLET_EVENTS, dispatchWalletEvent } from '../lib/events/walletEvents';
-
-interface SubscriptionPlan {
-  id: string;
-  name: string;
-  price: number;
-  interval: string;
-  features: string[];
-  popular?: boolean;
-}
-
-const SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
-  {
-    id: 'basic',
-    name: 'Basic',
-    price: 0.1,
-    interval: 'month',
-    features: [
-      'Passkey authentication',
-      'Basic smart wallet',
-      '10 transactions/month',
-      'Community support',
-    ],
-  },
-  {
-    id: 'pro',
-    name: 'Pro',
-    price: 0.5,
-    interval: 'month',
-    features: [
-      'Everything in Basic',
-      'Unlimited transactions',
-      'Priority support',
-      'Advanced analytics',
-      'API access',
-    ],
-    popular: true,
-  },
-  {
-    id: 'enterprise',
-    name: 'Enterprise',
-    price: 2.0,
-    interval: 'month',
-    features: [
-      'Everything in Pro',
-      'Custom integration',
-      'Dedicated support',
-      'SLA guarantee',
-      'White-label option',
-    ],
-  },
-];
-
-// Merchant wallet address - receives subscription payments
-const MERCHANT_WALLET = new PublicKey('9T2zGaNBr7bKBBEvQ9AAGNwCG3iL4jVF2Z8TipqikpKG');
-const RPC_URL = 'https://api.devnet.solana.com';
+import { useSubscriptions } from '../hooks/useSubscriptionStore';
 
 export default function SubscriptionDemo() {
   const { isConnected, smartWalletPubkey, signAndSendTransaction } = useWallet();
+  const { store, subscriptions } = useSubscriptions(smartWalletPubkey?.toString() ?? null);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>('month');
   const [isSubscribing, setIsSubscribing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  // Set synchronously, unlike isSubscribing, so a double click can't start a second checkout
+  const isCheckingOutRef = useRef(false);
+
+  const handleApplyPromoCode = () => {
+    const { coupon, error: couponError } = validateCoupon(promoCode);
+    setAppliedCoupon(coupon ?? null);
+    setPromoError(couponError ?? null);
+  };
+
+  const handleRemovePromoCode = () => {
+    setAppliedCoupon(null);
+    setPromoCode('');
+    setPromoError(null);
+  };
 
   const handleSubscribe = async (planId: string) => {
     if (!isConnected || !smartWalletPubkey || !signAndSendTransaction) {
@@ -81,15 +78,17 @@ export default function SubscriptionDemo() {
     }
 
     // Check if user already has an active subscription for this plan
-    const existingSubscriptions = getSubscriptions(smartWalletPubkey.toString());
+    const existingSubscriptions = await store.list(smartWalletPubkey.toString());
     const activeSubscription = existingSubscriptions.find(
-      (sub) => sub.planId === planId && sub.status === 'active'
+      (sub) => sub.planId === planId && ['trialing', 'active', 'past_due'].includes(sub.status)
     );
     
     if (activeSubscription) {
-      setError(`You already have an active ${SUBSCRIPTION_PLANS.find(p => p.id === planId)?.name} subscription`);
+      setError(`You already have an active ${getPlanName(planId)} subscription`);
       return;
     }
+    if (isCheckingOutRef.current) return;
+    isCheckingOutRef.current = true;
 
     setSelectedPlan(planId);
     setIsSubscribing(true);
@@ -97,67 +96,127 @@ export default function SubscriptionDemo() {
     setSuccessMessage(null);
 
     try {
-      const plan = SUBSCRIPTION_PLANS.find((p) => p.id === planId);
-      if (!plan) {
+      const plan = getPlan(planId);
+      if (!plan || plan.archived) {
         throw new Error('Invalid plan selected');
       }
+      const price = getPlanPrice(plan, billingInterval);
+      const walletAddress = smartWalletPubkey.toString();
+      const startTrial = isTrialEligible(existingSubscriptions, plan);
+      let txSignature: string | null = null;
+      let quote: ChargeQuote | null = null;
 
-      // Create transaction instruction for subscription payment
-      const instruction = SystemProgram.transfer({
-        fromPubkey: smartWalletPubkey,
-        toPubkey: MERCHANT_WALLET,
-        lamports: plan.price * LAMPORTS_PER_SOL,
-      });
-
-      // Sign and send transaction with passkey
-      const txSignature = await signAndSendTransaction({
-        instructions: [instruction],
-      });
+      // Re-check the code in case it expired since it was applied; the checkout claims one of its redemptions
+      let discount: AppliedDiscount | undefined;
+      if (appliedCoupon) {
+        const { coupon, error: couponError } = validateCoupon(appliedCoupon.code);
+        if (!coupon) {
+          setAppliedCoupon(null);
+          throw new Error(couponError);
+        }
+        if (!appliesToPriceUnit(coupon, getPriceUnit(plan))) {
+          throw new Error(`Promo code ${coupon.code} only applies to plans priced in ${coupon.currency}`);
+        }
+        discount = toAppliedDiscount(coupon);
+      }
+      const discountAmount = startTrial ? 0 : calculateDiscountAmount(price, discount);
+      const firstCharge = roundSol(price - discountAmount);
 
-      // Wait for confirmation
-      const connection = new Connection(RPC_URL, 'confirmed');
-      await connection.confirmTransaction(txSignature, 'confirmed');
+      // Trials start without a charge; the first payment is taken at conversion.
+      // Fiat prices are converted at today's rate.
+      if (!startTrial && toLamports(firstCharge) > 0) {
+        quote = await quoteCharge(firstCharge, plan);
+      }
 
-      // Create subscription record
+      // Create subscription record; renewals are scheduled from this anchor
+      const createdAt = Date.now();
+      const trialEndsAt = startTrial ? calculateTrialEnd(plan, createdAt) : undefined;
+      const billingAnchor = trialEndsAt ?? createdAt;
+      const nextBillingDate = trialEndsAt ?? calculateNextBillingDate(billingAnchor, billingInterval);
+      const subscriptionId = generateSubscriptionId();
       const subscription: Subscription = {
-        id: generateSubscriptionId(),
-        planId: planId as SubscriptionPlanId,
-        walletAddress: smartWalletPubkey.toString(),
-        status: 'active',
-        createdAt: Date.now(),
-        nextBillingDate: calculateNextBillingDate(Date.now()),
-        amount: plan.price,
-        interval: 'month',
-        paymentHistory: [
-          {
-            id: `pay_${Date.now()}`,
-            subscriptionId: '',
-            amount: plan.price,
-            timestamp: Date.now(),
-            txSignature,
-            status: 'success',
-          },
-        ],
+        id: subscriptionId,
+        planId: plan.id,
+        planVersion: plan.version,
+        walletAddress,
+        status: startTrial ? 'trialing' : 'active',
+        createdAt,
+        billingAnchor,
+        nextBillingDate,
+        trialEndsAt,
+        trialPlanId: startTrial ? plan.id : undefined,
+        amount: price,
+        currency: plan.currency,
+        priceCurrency: plan.priceCurrency,
+        interval: billingInterval,
+        // The first payment uses up one discounted cycle unless it's deferred by a trial
+        discount: startTrial ? discount : consumeDiscountCycle(discount),
+        paymentHistory: startTrial
+          ? []
+          : [
+              {
+                id: `pay_${createdAt}`,
+                subscriptionId,
+                amount: firstCharge,
+                timestamp: createdAt,
+                // Filled in by the checkout once the payment is sent
+                txSignature: '',
+                status: 'success',
+                kind: 'initial',
+                ...(discount && discountAmount > 0 && {
+                  discount: { couponCode: discount.couponCode, amount: discountAmount },
+                }),
+                ...(quote?.exchangeRate && { settledAmount: quote.amount, exchangeRate: quote.exchangeRate }),
+                invoice: createInvoiceReference(
+                  { planId: plan.id, planVersion: plan.version },
+                  createdAt,
+                  nextBillingDate
+                ),
+              },
+            ],
       };
 
-      // Update payment record with subscription ID
-      subscription.paymentHistory[0].subscriptionId = subscription.id;
-
-      // Save subscription to storage
-      addSubscription(smartWalletPubkey.toString(), subscription);
-
-      // Dispatch events for automatic updates
-      dispatchWalletEvent(WALLET_EVENTS.TRANSACTION_COMPLETED, {
-        signature: txSignature,
-        type: 'subscription',
-      });
-      dispatchWalletEvent(WALLET_EVENTS.BALANCE_UPDATED);
-      dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_CREATED, {
-        subscriptionId: subscription.id,
-        planId: subscription.planId,
-      });
+      if (quote) {
+        // Journalled before the passkey prompt and stored once confirmed, so a closed tab or
+        // failed write is settled from the chain on the next load (see checkout.ts).
+        // Token plans check the payer's balance before the prompt.
+        const chargeAmount = quote.amount;
+        const connection = new Connection(RPC_URL, 'confirmed');
+        ({ txSignature } = await runCheckout(
+          walletAddress,
+          subscription,
+          (memo) =>
+            sendPayment(chargeAmount, { payer: smartWalletPubkey, signAndSendTransaction, connection }, getCurrency(plan), memo),
+          store,
+          discount?.couponCode
+        ));
+      } else {
+        if (discount) {
+          await claimRedemption(walletAddress, discount.couponCode, subscriptionId);
+        }
+        try {
+          await store.add(walletAddress, subscription);
+        } catch (addError) {
+          if (discount) {
+            await releaseRedemption(walletAddress, discount.couponCode, subscriptionId);
+          }
+          throw addError;
+        }
+        dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_CREATED, {
+          subscriptionId: subscription.id,
+          planId: subscription.planId,
+        });
+      }
+      if (discount) {
+        setAppliedCoupon(null);
+        setPromoCode('');
+      }
 
-      setSuccessMessage(`Successfully subscribed to ${plan.name}! Transaction: ${txSignature.substring(0, 8)}...`);
+      setSuccessMessage(
+        !startTrial
+          ? `Successfully subscribed to ${plan.name}!${txSignature ? ` Transaction: ${txSignature.substring(0, 8)}...` : ''}`
+          : `Your ${plan.trialDays}-day ${plan.name} trial has started. You won't be charged until ${formatDate(billingAnchor)}.`
+      );
       setSelectedPlan(null);
       
       // Clear success message after 5 seconds
@@ -170,6 +229,7 @@ export default function SubscriptionDemo() {
       console.error('Subscription error:', err);
     } finally {
       setIsSubscribing(false);
+      isCheckingOutRef.current = false;
     }
   };
 
@@ -193,8 +253,55 @@ export default function SubscriptionDemo() {
         </div>
       )}
 
-      <div className="grid grid-cols-1 gap-4 sm:gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {SUBSCRIPTION_PLANS.map((plan) => (
+      <div className="mb-4 sm:mb-6 flex flex-wrap justify-center gap-2" data-testid="interval-toggle">
+        {BILLING_INTERVALS.map((option) => (
+          <Button
+            key={option}
+            onClick={() => setBillingInterval(option)}
+            disabled={isSubscribing}
+            variant={billingInterval === option ? 'gradient' : 'outline'}
+            size="sm"
+            data-testid={`interval-${option}-btn`}
+          >
+            {INTERVAL_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="mx-auto mb-4 sm:mb-6 max-w-md" data-testid="promo-code">
+        {appliedCoupon ? (
+          <div className="flex items-center justify-between gap-2 rounded-lg border border-green-500/50 bg-green-500/10 p-3">
+            <p className="text-xs sm:text-sm text-green-400">
+              <span className="font-semibold">{appliedCoupon.code}</span>: {describeDiscount(toAppliedDiscount(appliedCoupon))}
+            </p>
+            <Button onClick={handleRemovePromoCode} disabled={isSubscribing} variant="ghost" size="sm">
+              Remove
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value)}
+              placeholder="Promo code"
+              disabled={isSubscribing}
+              data-testid="promo-code-input"
+            />
+            <Button
+              onClick={handleApplyPromoCode}
+              disabled={isSubscribing || !promoCode.trim()}
+              variant="outline"
+              data-testid="apply-promo-code-btn"
+            >
+              Apply
+            </Button>
+          </div>
+        )}
+        {promoError && <p className="mt-2 text-xs sm:text-sm text-destructive">{promoError}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:gap-6 md:grid-cols-2 xl:grid-cols-4">
+        {getCurrentPlans().map((plan) => (
           <Card
             key={plan.id}
             className={`relative flex h-full flex-col overflow-hidden transition-all hover:shadow-lg ${
@@ -217,11 +324,36 @@ export default function SubscriptionDemo() {
               <CardTitle className="text-xl sm:text-2xl font-bold text-foreground">{plan.name}</CardTitle>
               <div className="mt-3 sm:mt-4 flex flex-wrap items-baseline gap-1">
                 <span className="bg-gradient-to-r from-cyan-500 to-purple-600 bg-clip-text text-3xl sm:text-4xl font-bold text-transparent">
-                  {plan.price}
+                  {getPlanPrice(plan, billingInterval)}
                 </span>
-                <span className="text-base sm:text-lg text-muted-foreground">SOL</span>
-                <span className="text-xs sm:text-sm text-muted-foreground">/ {plan.interval}</span>
+                <span className="text-base sm:text-lg text-muted-foreground">{getPriceUnit(plan)}</span>
+                <span className="text-xs sm:text-sm text-muted-foreground">/ {billingInterval}</span>
               </div>
+              {getIntervalSavings(plan, billingInterval) > 0 && (
+                <p className="mt-1 text-xs sm:text-sm font-medium text-green-400">
+                  Save {getIntervalSavings(plan, billingInterval)}% vs monthly
+                </p>
+              )}
+              {appliedCoupon && !appliesToPriceUnit(appliedCoupon, getPriceUnit(plan)) && (
+                <p className="mt-1 text-xs sm:text-sm text-muted-foreground">
+                  {appliedCoupon.code} doesn&apos;t apply to plans priced in {getPriceUnit(plan)}
+                </p>
+              )}
+              {appliedCoupon && appliesToPriceUnit(appliedCoupon, getPriceUnit(plan)) && (
+                <p className="mt-1 text-xs sm:text-sm font-medium text-green-400">
+                  First payment{' '}
+                  {roundSol(
+                    getPlanPrice(plan, billingInterval) -
+                      calculateDiscountAmount(getPlanPrice(plan, billingInterval), toAppliedDiscount(appliedCoupon))
+                  )}{' '}
+                  {getPriceUnit(plan)} with {appliedCoupon.code}
+                </p>
+              )}
+              {(plan.trialDays ?? 0) > 0 && (
+                <p className="mt-1 text-xs sm:text-sm text-muted-foreground">
+                  {plan.trialDays}-day free trial for new subscribers, no charge up front
+                </p>
+              )}
             </CardHeader>
 
             <CardContent className="flex flex-1 flex-col overflow-hidden px-4 sm:px-6">
@@ -248,6 +380,8 @@ export default function SubscriptionDemo() {
                       <Loader2 className="h-4 w-4 animate-spin" />
                       <span className="ml-2">Processing...</span>
                     </>
+                  ) : smartWalletPubkey && isTrialEligible(subscriptions, plan) ? (
+                    `Start ${plan.trialDays}-day trial`
                   ) : (
                     'Subscribe Now'
                   )}
@@ -281,7 +415,7 @@ export default function SubscriptionDemo() {
               {
                 step: '3',
                 title: 'Auto Billing',
-                description: 'Payments happen automatically each month. No manual approval needed!',
+                description: 'Payments happen automatically each billing period. No manual approval needed!',
               },
             ].map((item, index) => (
               <div key={index} className="flex gap-3 sm:gap-4" data-testid={`how-it-works-${index}`}>
@@ -1,77 +1,103 @@
 'use client';
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useWallet } from '@lazorkit/wallet';
-import { getSubscriptions } from '../lib/subscription/storage';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { runBillingCycle } from '../lib/subscription/billing';
+import { reconcileSubscriptions, type ReconciliationReport } from '../lib/subscription/reconciliation';
+import { resumePendingCheckout } from '../lib/subscription/checkout';
+import { BILLING_CHECK_INTERVAL_MS, RPC_URL } from '../lib/subscription/config';
 import { formatDate } from '../lib/subscription/utils';
-import type { Subscription } from '../lib/subscription/types';
 import SubscriptionCard from './SubscriptionCard';
 import { useTheme } from '../contexts/ThemeContext';
-import { WALLET_EVENTS, listenWalletEvent } from '../lib/events/walletEvents';
+import { useSubscriptions } from '../hooks/useSubscriptionStore';
 
 export default function SubscriptionManager() {
-  const { smartWalletPubkey, isConnected } = useWallet();
+  const { smartWalletPubkey, isConnected, signAndSendTransaction } = useWallet();
   const { theme } = useTheme();
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [reconciliationReport, setReconciliationReport] = useState<ReconciliationReport | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const isBillingRef = useRef(false);
+  const signAndSendRef = useRef(signAndSendTransaction);
+
+  useEffect(() => {
+    signAndSendRef.current = signAndSendTransaction;
+  }, [signAndSendTransaction]);
 
   const walletAddressString = useMemo(
     () => smartWalletPubkey?.toString() || null,
     [smartWalletPubkey]
   );
 
-  const handleUpdate = useCallback(() => {
-    if (walletAddressString) {
-      const subs = getSubscriptions(walletAddressString);
-      setSubscriptions(subs);
-    }
-  }, [walletAddressString]);
+  // Reloads on subscription events, so cards only need to call refresh after their own changes
+  const { store, subscriptions, isLoading, refresh: handleUpdate } = useSubscriptions(
+    isConnected ? walletAddressString : null
+  );
 
-  const refreshSubscriptions = useCallback(() => {
-    if (walletAddressString) {
-      setIsLoading(true);
-      const subs = getSubscriptions(walletAddressString);
-      setSubscriptions(subs);
-      setIsLoading(false);
+  // Settles a checkout that a closed tab or failed write left between payment and record
+  const resumeCheckout = useCallback(async () => {
+    if (!walletAddressString) return;
+    try {
+      await resumePendingCheckout(walletAddressString, new Connection(RPC_URL, 'confirmed'), store);
+    } catch (err) {
+      console.error('Checkout recovery error:', err);
     }
-  }, [walletAddressString]);
+  }, [walletAddressString, store]);
 
-  useEffect(() => {
-    if (isConnected && walletAddressString) {
-      refreshSubscriptions();
-    } else {
-      setSubscriptions([]);
-      setIsLoading(false);
+  // Checks stored payments against the chain; shares the billing guard so the two never write at once
+  const runReconciliation = useCallback(async () => {
+    if (!walletAddressString || isBillingRef.current) return;
+    isBillingRef.current = true;
+    setIsReconciling(true);
+    try {
+      const report = await reconcileSubscriptions({
+        walletAddress: walletAddressString,
+        connection: new Connection(RPC_URL, 'confirmed'),
+      });
+      setReconciliationReport(report);
+    } catch (err) {
+      console.error('Reconciliation error:', err);
+    } finally {
+      isBillingRef.current = false;
+      setIsReconciling(false);
     }
-  }, [isConnected, walletAddressString, refreshSubscriptions]);
+  }, [walletAddressString]);
 
-  // Listen for subscription events to auto-refresh
+  // Finish any interrupted checkout and reconcile first, so a payment whose record was lost
+  // isn't charged again, then charge any subscriptions that have come due and keep
+  // checking while the page is open
   useEffect(() => {
     if (!isConnected || !walletAddressString) return;
 
-    const unsubscribeCreated = listenWalletEvent(
-      WALLET_EVENTS.SUBSCRIPTION_CREATED,
-      () => {
-        refreshSubscriptions();
-      }
-    );
-
-    const unsubscribeUpdated = listenWalletEvent(
-      WALLET_EVENTS.SUBSCRIPTION_UPDATED,
-      () => {
-        refreshSubscriptions();
+    const runBilling = async () => {
+      if (isBillingRef.current || !signAndSendRef.current) return;
+      isBillingRef.current = true;
+      try {
+        await runBillingCycle({
+          walletAddress: walletAddressString,
+          payer: new PublicKey(walletAddressString),
+          signAndSendTransaction: signAndSendRef.current,
+          connection: new Connection(RPC_URL, 'confirmed'),
+        });
+      } catch (err) {
+        console.error('Billing error:', err);
+      } finally {
+        isBillingRef.current = false;
       }
-    );
-
-    return () => {
-      unsubscribeCreated();
-      unsubscribeUpdated();
     };
-  }, [isConnected, walletAddressString, refreshSubscriptions]);
 
-  const activeSubscriptions = subscriptions.filter((sub) => sub.status === 'active');
+    resumeCheckout().then(runReconciliation).then(runBilling);
+    const intervalId = setInterval(() => resumeCheckout().then(runBilling), BILLING_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isConnected, walletAddressString, resumeCheckout, runReconciliation]);
+
+  const activeSubscriptions = subscriptions.filter(
+    (sub) => sub.status === 'active' || sub.status === 'trialing'
+  );
+  const pastDueSubscriptions = subscriptions.filter((sub) => sub.status === 'past_due');
   const cancelledSubscriptions = subscriptions.filter((sub) => sub.status === 'cancelled');
   const pausedSubscriptions = subscriptions.filter((sub) => sub.status === 'paused');
+  const expiredSubscriptions = subscriptions.filter((sub) => sub.status === 'expired');
 
   if (!isConnected) {
     return (
@@ -108,7 +134,41 @@ export default function SubscriptionManager() {
         </p>
       </div>
 
-      {activeSubscriptions.length === 0 && cancelledSubscriptions.length === 0 && pausedSubscriptions.length === 0 ? (
+      {subscriptions.length > 0 && (
+        <div className="glass rounded-lg p-3 mb-6 flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div className="text-secondary">
+            {reconciliationReport ? (
+              <>
+                {reconciliationReport.verified} payment{reconciliationReport.verified === 1 ? '' : 's'} verified on-chain
+                {reconciliationReport.issues.length > 0 && (
+                  <span className="text-red-400"> · {reconciliationReport.issues.length} flagged</span>
+                )}
+                {reconciliationReport.restored.length > 0 && (
+                  <span className="text-green-400"> · {reconciliationReport.restored.length} restored</span>
+                )}
+                {reconciliationReport.unmatched.length > 0 && (
+                  <span className="text-orange-400">
+                    {' '}
+                    · {reconciliationReport.unmatched.length} payment{reconciliationReport.unmatched.length === 1 ? '' : 's'} to
+                    the merchant not matched to a subscription
+                  </span>
+                )}
+              </>
+            ) : (
+              'Payments not yet checked against the chain'
+            )}
+          </div>
+          <button
+            onClick={runReconciliation}
+            disabled={isReconciling}
+            className="py-1 px-3 glass rounded-lg text-sm text-cyan-400 hover:bg-cyan-500/10 transition-colors disabled:opacity-50"
+          >
+            {isReconciling ? 'Checking...' : 'Verify on-chain'}
+          </button>
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
         <div className="glass-strong rounded-2xl p-12 text-center">
           <svg
             className="w-16 h-16 text-secondary mx-auto mb-4"
@@ -128,6 +188,21 @@ export default function SubscriptionManager() {
         </div>
       ) : (
         <div className="space-y-6">
+          {pastDueSubscriptions.length > 0 && (
+            <div>
+              <h3 className="text-xl font-semibold mb-4 text-primary-text">Past Due Subscriptions</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {pastDueSubscriptions.map((subscription) => (
+                  <SubscriptionCard
+                    key={subscription.id}
+                    subscription={subscription}
+                    onUpdate={handleUpdate}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {activeSubscriptions.length > 0 && (
             <div>
               <h3 className="text-xl font-semibold mb-4 text-primary-text">Active Subscriptions</h3>
@@ -172,6 +247,21 @@ export default function SubscriptionManager() {
               </div>
             </div>
           )}
+
+          {expiredSubscriptions.length > 0 && (
+            <div>
+              <h3 className="text-xl font-semibold mb-4 text-primary-text">Expired Subscriptions</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {expiredSubscriptions.map((subscription) => (
+                  <SubscriptionCard
+                    key={subscription.id}
+                    subscription={subscription}
+                    onUpdate={handleUpdate}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
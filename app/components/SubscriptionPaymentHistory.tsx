@@ -1,7 +1,11 @@
 'use client';
 
-import type { Subscription } from '../lib/subscription/types';
+import { useState } from 'react';
+import { FileText } from 'lucide-react';
+import type { PaymentRecord, Subscription } from '../lib/subscription/types';
 import { formatDateTime } from '../lib/subscription/utils';
+import { getPriceUnit } from '../lib/subscription/pricing';
+import { buildInvoice, ensureInvoiceReference, getInvoiceNumber, renderInvoiceHtml } from '../lib/subscription/invoices';
 
 const EXPLORER_BASE_URL = 'https://explorer.solana.com';
 
@@ -10,6 +14,31 @@ interface SubscriptionPaymentHistoryProps {
 }
 
 export default function SubscriptionPaymentHistory({ subscription }: SubscriptionPaymentHistoryProps) {
+  const priceUnit = getPriceUnit(subscription);
+  const [error, setError] = useState<string | null>(null);
+
+  // Opens the invoice in its own window and brings up the print dialog, where it can be saved as PDF
+  const handleOpenInvoice = async (payment: PaymentRecord) => {
+    setError(null);
+    // Open the window before any await so the click still counts as a user gesture
+    const invoiceWindow = window.open('', '_blank');
+    if (!invoiceWindow) {
+      setError('Allow pop-ups to open the invoice');
+      return;
+    }
+    try {
+      const reference = await ensureInvoiceReference(subscription.walletAddress, subscription, payment);
+      invoiceWindow.document.write(renderInvoiceHtml(buildInvoice(subscription, payment, reference)));
+      invoiceWindow.document.close();
+      invoiceWindow.focus();
+      invoiceWindow.print();
+    } catch (err) {
+      invoiceWindow.close();
+      console.error('Invoice error:', err);
+      setError('Failed to open invoice');
+    }
+  };
+
   if (subscription.paymentHistory.length === 0) {
     return (
       <div className="glass rounded-lg p-4 text-center text-sm text-secondary">
@@ -21,6 +50,7 @@ export default function SubscriptionPaymentHistory({ subscription }: Subscriptio
   return (
     <div className="glass rounded-lg p-4 max-h-64 overflow-y-auto">
       <h4 className="text-sm font-semibold text-primary-text mb-3">Payment History</h4>
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
       <div className="space-y-2">
         {subscription.paymentHistory
           .sort((a, b) => b.timestamp - a.timestamp)
@@ -31,8 +61,26 @@ export default function SubscriptionPaymentHistory({ subscription }: Subscriptio
             >
               <div>
                 <div className="text-primary-text font-medium">
-                  {payment.amount} SOL
+                  {payment.amount} {priceUnit}
                 </div>
+                {payment.invoice && <div className="text-secondary">{getInvoiceNumber(payment)}</div>}
+                {payment.reconciliation && payment.reconciliation.status !== 'verified' && (
+                  <div className="text-red-400">{payment.reconciliation.issues?.join('; ')}</div>
+                )}
+                {payment.reconciliation?.restored && (
+                  <div className="text-secondary">Restored from on-chain history</div>
+                )}
+                {payment.exchangeRate && (
+                  <div className="text-secondary">
+                    {payment.settledAmount} {payment.exchangeRate.base} at {payment.exchangeRate.rate}{' '}
+                    {payment.exchangeRate.quote}/{payment.exchangeRate.base}
+                  </div>
+                )}
+                {payment.discount && (
+                  <div className="text-green-400">
+                    -{payment.discount.amount} {priceUnit} ({payment.discount.couponCode})
+                  </div>
+                )}
                 <div className="text-secondary">{formatDateTime(payment.timestamp)}</div>
               </div>
               <div className="flex items-center gap-2">
@@ -45,6 +93,15 @@ export default function SubscriptionPaymentHistory({ subscription }: Subscriptio
                 >
                   {payment.status}
                 </span>
+                {payment.status === 'success' && (
+                  <button
+                    onClick={() => handleOpenInvoice(payment)}
+                    className="text-blue-400 hover:text-blue-300"
+                    title="Invoice (print or save as PDF)"
+                  >
+                    <FileText className="w-4 h-4" />
+                  </button>
+                )}
                 <a
                   href={`${EXPLORER_BASE_URL}/tx/${payment.txSignature}?cluster=devnet`}
                   target="_blank"
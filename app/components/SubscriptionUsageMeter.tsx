@@ -0,0 +1,51 @@
+'use client';
+
+import { getIncludedTransactions, getSubscriptionPlan } from '../lib/subscription/catalog';
+import { calculateOverage, getPeriodUsage, getUsagePeriod } from '../lib/subscription/usage';
+import { formatDate } from '../lib/subscription/utils';
+import type { Subscription } from '../lib/subscription/types';
+
+interface SubscriptionUsageMeterProps {
+  subscription: Subscription;
+  priceUnit: string;
+}
+
+// Usage in the current billing period against the plan's included allowance, and the
+// overage the next renewal will add. Renders nothing for flat-priced plans.
+export default function SubscriptionUsageMeter({ subscription, priceUnit }: SubscriptionUsageMeterProps) {
+  const plan = getSubscriptionPlan(subscription);
+  if (!plan?.usagePricing) return null;
+
+  const { start, end } = getUsagePeriod(subscription);
+  const used = getPeriodUsage(subscription, start, end);
+  const included = getIncludedTransactions(plan, subscription.interval);
+  const overage = calculateOverage(subscription);
+  const percent = included > 0 ? Math.min((used / included) * 100, 100) : 100;
+
+  return (
+    <div className="p-3 mb-4 bg-muted/30 border border-border rounded-lg space-y-2 text-sm" data-testid="usage-meter">
+      <div className="flex justify-between">
+        <span className="text-secondary">Usage this period:</span>
+        <span className="text-primary-text">
+          {used} of {included} included
+        </span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${overage ? 'bg-orange-400' : 'bg-cyan-400'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {overage ? (
+        <p className="text-xs text-orange-400">
+          {overage.quantity - overage.included} over the allowance: {overage.amount} {priceUnit} will be added to
+          the renewal on {formatDate(end)}
+        </p>
+      ) : (
+        <p className="text-xs text-secondary">
+          Extra transactions cost {plan.usagePricing.unitPrice} {priceUnit} each. Usage resets on {formatDate(end)}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import type { Entitlements, QuotaStatus } from '../lib/subscription/entitlements';
+import { formatDate } from '../lib/subscription/utils';
+
+interface TransactionQuotaProps {
+  entitlements: Entitlements;
+  quotaStatus: QuotaStatus;
+  planName: string | null;
+}
+
+const STATUS_STYLES: Record<QuotaStatus, string> = {
+  unmetered: '',
+  unlimited: 'border-green-500/30 bg-green-500/10 text-green-400',
+  available: 'border-border bg-muted/30 text-muted-foreground',
+  low: 'border-yellow-500/30 bg-yellow-500/10 text-yellow-400',
+  exhausted: 'border-red-500/30 bg-red-500/10 text-red-400',
+};
+
+// Remaining monthly transactions on the wallet's plan, shown next to the send forms
+export default function TransactionQuota({ entitlements, quotaStatus, planName }: TransactionQuotaProps) {
+  if (quotaStatus === 'unmetered') return null;
+
+  const limit = entitlements.limits?.transactionsPerMonth;
+  const resets = entitlements.periodEnd !== null ? formatDate(entitlements.periodEnd) : null;
+
+  return (
+    <div className={`rounded-lg border p-3 text-xs sm:text-sm ${STATUS_STYLES[quotaStatus]}`} data-testid="transaction-quota">
+      {quotaStatus === 'unlimited' &&
+        (entitlements.usagePriced ? (
+          <p>Transactions beyond your {planName} allowance are billed with your next renewal</p>
+        ) : (
+          <p>Unlimited transactions on your {planName} plan</p>
+        ))}
+      {(quotaStatus === 'available' || quotaStatus === 'low') && (
+        <p>
+          {entitlements.transactionsRemaining} of {limit} transactions left this month on your {planName} plan
+          {resets && ` · resets ${resets}`}
+        </p>
+      )}
+      {quotaStatus === 'exhausted' && (
+        <p>
+          You&apos;ve used all {limit} transactions on your {planName} plan this month
+          {resets && `. More become available on ${resets}`}.{' '}
+          <Link href="/subscription" className="underline hover:opacity-80">
+            Upgrade your plan
+          </Link>{' '}
+          to keep sending.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import {
   Connection,
 } from '@solana/web3.js';
 import { WALLET_EVENTS, dispatchWalletEvent } from '../lib/events/walletEvents';
+import { useEntitlements } from '../hooks/useEntitlements';
+import TransactionQuota from './TransactionQuota';
 
 interface TransferModalProps {
   isOpen: boolean;
@@ -29,6 +31,7 @@ export default function TransferModal({ isOpen, onClose, onSuccess }: TransferMo
   const [error, setError] = useState<string | null>(null);
   const [balance, setBalance] = useState<number | null>(null);
   const [txSignature, setTxSignature] = useState<string | null>(null);
+  const { entitlements, quotaStatus, planName, canTransact } = useEntitlements();
 
   useEffect(() => {
     if (isOpen && smartWalletPubkey) {
@@ -67,6 +70,11 @@ export default function TransferModal({ isOpen, onClose, onSuccess }: TransferMo
       setError('Wallet not connected');
       return;
     }
+
+    if (!canTransact) {
+      setError(`Your ${planName} plan's monthly transaction limit has been reached.`);
+      return;
+    }
     
     setTxStatus('signing');
     setError(null);
@@ -209,6 +217,8 @@ export default function TransferModal({ isOpen, onClose, onSuccess }: TransferMo
             />
           </div>
 
+          <TransactionQuota entitlements={entitlements} quotaStatus={quotaStatus} planName={planName} />
+
           {error && (
             <div className="p-2.5 sm:p-3 bg-red-500/10 border border-red-500/20 rounded-lg" data-testid="transfer-error">
               <p className="text-xs sm:text-sm text-red-400 whitespace-pre-line break-words">{error}</p>
@@ -290,7 +300,7 @@ export default function TransferModal({ isOpen, onClose, onSuccess }: TransferMo
 
           <button
             type="submit"
-            disabled={txStatus !== 'idle' && txStatus !== 'error'}
+            disabled={(txStatus !== 'idle' && txStatus !== 'error') || !canTransact}
             className="w-full px-4 sm:px-6 py-3 text-sm sm:text-base gradient-primary text-white rounded-lg font-semibold hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed btn-glow"
             data-testid="send-transfer-btn"
           >
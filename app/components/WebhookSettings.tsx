@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { RefreshCw, Send, Trash2 } from 'lucide-react';
+import { WEBHOOK_EVENT_TYPES, type WebhookDeliveryStatus, type WebhookEventType } from '../lib/subscription/webhooks';
+import { formatDateTime } from '../lib/subscription/utils';
+import { useWebhooks } from '../hooks/useWebhooks';
+import { Input } from './ui/input';
+
+const getDeliveryBadge = (status: WebhookDeliveryStatus) => {
+  switch (status) {
+    case 'succeeded':
+      return 'bg-green-500/20 text-green-400 border-green-500/30';
+    case 'pending':
+      return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+    default:
+      return 'bg-red-500/20 text-red-400 border-red-500/30';
+  }
+};
+
+export default function WebhookSettings() {
+  const { endpoints, deliveries, isLoading, refresh, registerEndpoint, removeEndpoint, redeliver } = useWebhooks();
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((entry) => entry !== event) : [...prev, event]));
+  };
+
+  const handleRegister = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const endpoint = await registerEndpoint(url.trim(), events);
+      setNewSecret(endpoint?.secret ?? null);
+      setUrl('');
+    } catch (err) {
+      console.error('Error registering webhook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to register webhook');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRemove = async (endpointId: string) => {
+    if (!confirm('Stop sending webhooks to this endpoint?')) return;
+    try {
+      await removeEndpoint(endpointId);
+    } catch (err) {
+      console.error('Error removing webhook:', err);
+      setError('Failed to remove webhook');
+    }
+  };
+
+  const handleRedeliver = async (deliveryId: string) => {
+    try {
+      await redeliver(deliveryId);
+    } catch (err) {
+      console.error('Error redelivering webhook:', err);
+      setError('Failed to redeliver webhook');
+    }
+  };
+
+  return (
+    <div className="glass-strong rounded-2xl p-4 sm:p-6 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold text-primary-text">Webhooks</h2>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          className="py-1 px-3 glass rounded-lg text-sm text-cyan-400 hover:bg-cyan-500/10 transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhooks"
+            className="flex-1"
+          />
+          <button
+            onClick={handleRegister}
+            disabled={isProcessing || !url.trim() || events.length === 0}
+            className="py-2 px-4 bg-gradient-to-r from-cyan-500 to-purple-600 text-white rounded-lg text-sm font-semibold disabled:opacity-50"
+          >
+            {isProcessing ? 'Adding...' : 'Add endpoint'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {WEBHOOK_EVENT_TYPES.map((event) => (
+            <label key={event} className="flex items-center gap-1 text-xs text-secondary">
+              <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+              {event}
+            </label>
+          ))}
+        </div>
+        {newSecret && (
+          <div className="glass rounded-lg p-3 text-sm">
+            <p className="text-secondary mb-1">Signing secret (shown once, copy it now):</p>
+            <code className="break-all text-primary-text">{newSecret}</code>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      {endpoints.length > 0 && (
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="glass rounded-lg p-3 flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <div className="truncate text-primary-text">{endpoint.url}</div>
+                <div className="text-xs text-secondary">
+                  {endpoint.events.length === WEBHOOK_EVENT_TYPES.length ? 'All events' : endpoint.events.join(', ')} ·{' '}
+                  {endpoint.secret}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRemove(endpoint.id)}
+                className="p-2 text-secondary hover:text-red-400 transition-colors"
+                aria-label="Remove endpoint"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-semibold text-primary-text mb-3">Delivery log</h3>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-secondary">No deliveries yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-secondary border-b border-border">
+                  <th className="py-2 pr-4 font-medium">Event</th>
+                  <th className="py-2 pr-4 font-medium">Endpoint</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Last attempt</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => {
+                  const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+                  return (
+                    <tr key={delivery.id} className="border-b border-border/50 last:border-0 align-top">
+                      <td className="py-3 pr-4 text-primary-text">
+                        {delivery.event.type}
+                        <div className="text-xs text-secondary">{formatDateTime(delivery.createdAt)}</div>
+                      </td>
+                      <td className="py-3 pr-4 text-secondary max-w-[14rem] truncate" title={delivery.url}>
+                        {delivery.url}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span
+                          className={`text-xs font-semibold px-2 py-1 rounded border uppercase ${getDeliveryBadge(delivery.status)}`}
+                        >
+                          {delivery.status}
+                        </span>
+                        <div className="text-xs text-secondary mt-1">
+                          {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'}
+                          {delivery.nextAttemptAt !== undefined &&
+                            ` · retry ${formatDateTime(delivery.nextAttemptAt)}`}
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 text-xs text-secondary">
+                        {lastAttempt
+                          ? `${formatDateTime(lastAttempt.at)} · ${lastAttempt.error ?? `HTTP ${lastAttempt.statusCode}`}`
+                          : '—'}
+                      </td>
+                      <td className="py-3 text-right">
+                        <button
+                          onClick={() => handleRedeliver(delivery.id)}
+                          className="py-1 px-2 glass rounded-lg text-xs text-cyan-400 hover:bg-cyan-500/10 transition-colors flex items-center gap-1 ml-auto"
+                        >
+                          <Send className="h-3 w-3" />
+                          Redeliver
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
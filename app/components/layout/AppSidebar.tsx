@@ -1,7 +1,7 @@
 'use client';
 
 import { usePathname, useRouter } from 'next/navigation';
-import { LayoutDashboard, Wallet, CreditCard, User, LogOut } from 'lucide-react';
+import { LayoutDashboard, Wallet, CreditCard, Store, User, LogOut } from 'lucide-react';
 import { useWallet } from '@lazorkit/wallet';
 import { cn } from '@/lib/utils';
 import { Separator } from '../ui/separator';
@@ -17,6 +17,7 @@ const navItems: NavItem[] = [
   { title: 'Dashboard', href: '/', icon: <LayoutDashboard className="h-5 w-5" /> },
   { title: 'Wallet', href: '/wallet', icon: <Wallet className="h-5 w-5" /> },
   { title: 'Subscription', href: '/subscription', icon: <CreditCard className="h-5 w-5" /> },
+  { title: 'Merchant', href: '/merchant', icon: <Store className="h-5 w-5" /> },
   { title: 'Profile', href: '/profile', icon: <User className="h-5 w-5" /> },
 ];
 
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useWallet } from '@lazorkit/wallet';
+import {
+  getEntitlements,
+  getQuotaStatus,
+  getUsage,
+  isMeteredTransaction,
+  recordUsage,
+  type UsageRecord,
+} from '../lib/subscription/entitlements';
+import { recordTransactionUsage } from '../lib/subscription/usage';
+import { getPlanName } from '../lib/subscription/catalog';
+import { WALLET_EVENTS, listenWalletEvent } from '../lib/events/walletEvents';
+import { useSubscriptions } from './useSubscriptionStore';
+
+// The connected wallet's plan limits and this month's usage. Completed transfers are
+// counted as they happen, so the quota shown stays current, and recorded for billing
+// when the plan is usage-priced.
+export function useEntitlements() {
+  const { smartWalletPubkey, isConnected } = useWallet();
+  const walletAddress = isConnected ? (smartWalletPubkey?.toString() ?? null) : null;
+  const { subscriptions, isLoading } = useSubscriptions(walletAddress);
+  // Read from storage when the wallet changes, then replaced as transfers are recorded
+  const [recorded, setRecorded] = useState<{ walletAddress: string; usage: UsageRecord[] } | null>(null);
+  const usage = useMemo(() => {
+    if (!walletAddress) return [];
+    return recorded?.walletAddress === walletAddress ? recorded.usage : getUsage(walletAddress);
+  }, [walletAddress, recorded]);
+
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    return listenWalletEvent(WALLET_EVENTS.TRANSACTION_COMPLETED, (detail?: { signature?: string; type?: string }) => {
+      if (!detail?.signature || !isMeteredTransaction(detail.type)) return;
+      const timestamp = Date.now();
+      recordUsage(walletAddress, { signature: detail.signature, type: detail.type ?? '', timestamp });
+      setRecorded({ walletAddress, usage: getUsage(walletAddress) });
+      recordTransactionUsage(walletAddress, detail.signature, timestamp).catch((error) =>
+        console.error('Error recording metered usage:', error)
+      );
+    });
+  }, [walletAddress]);
+
+  const entitlements = useMemo(() => getEntitlements(subscriptions, usage), [subscriptions, usage]);
+  const quotaStatus = getQuotaStatus(entitlements);
+
+  return {
+    entitlements,
+    quotaStatus,
+    planName: entitlements.planId ? getPlanName(entitlements.planId) : null,
+    canTransact: quotaStatus !== 'exhausted',
+    isLoading,
+  };
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '@lazorkit/wallet';
+import type { MerchantSubscriber } from '../lib/subscription/merchant';
+import { MERCHANT_WALLET_ADDRESS, merchantRequest } from '../lib/subscription/merchantApi';
+import { useWalletSigner } from './useSubscriptionStore';
+
+// Every subscriber in the server store, as served by the merchant API. Only the merchant
+// wallet may read it, so nothing loads until that wallet is connected.
+export function useMerchantSubscribers() {
+  useWalletSigner();
+  const { wallet } = useWallet();
+  const isMerchant = wallet?.smartWallet === MERCHANT_WALLET_ADDRESS;
+  const [subscribers, setSubscribers] = useState<MerchantSubscriber[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isMerchant) {
+      setSubscribers([]);
+      setError('Connect the merchant wallet to see subscribers');
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const body = await merchantRequest<{ subscribers: MerchantSubscriber[] }>('/subscribers');
+      setSubscribers(body?.subscribers ?? []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading subscribers:', err);
+      setError('Failed to load subscribers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isMerchant]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { subscribers, isLoading, error, refresh };
+}
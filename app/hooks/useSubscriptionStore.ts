@@ -0,0 +1,61 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '@lazorkit/wallet';
+import { getSubscriptionStore, type SubscriptionStore } from '../lib/subscription/store';
+import { setWalletSigner } from '../lib/subscription/sessionClient';
+import type { Subscription } from '../lib/subscription/types';
+import { listenSubscriptionChanges } from '../lib/subscription/sync';
+import { WALLET_EVENTS, listenWalletEvent } from '../lib/events/walletEvents';
+
+// Hands the connected wallet to the API session clients, which ask it to sign when
+// the API needs a new session
+export function useWalletSigner(): void {
+  const { wallet, signMessage } = useWallet();
+
+  useEffect(() => {
+    setWalletSigner(
+      wallet ? { walletAddress: wallet.smartWallet, walletDevice: wallet.walletDevice, signMessage } : null
+    );
+  }, [wallet, signMessage]);
+}
+
+// The store selected in config (NEXT_PUBLIC_SUBSCRIPTION_STORE)
+export function useSubscriptionStore(): SubscriptionStore {
+  useWalletSigner();
+  return getSubscriptionStore();
+}
+
+// A wallet's subscriptions, reloaded whenever a subscription event fires or another tab
+// changes them
+export function useSubscriptions(walletAddress: string | null) {
+  const store = useSubscriptionStore();
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSubscriptions(walletAddress ? await store.list(walletAddress) : []);
+    } catch (error) {
+      console.error('Error loading subscriptions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [store, walletAddress]);
+
+  useEffect(() => {
+    refresh();
+
+    const unsubscribeCreated = listenWalletEvent(WALLET_EVENTS.SUBSCRIPTION_CREATED, refresh);
+    const unsubscribeUpdated = listenWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, refresh);
+    const unsubscribeOtherTabs = walletAddress ? listenSubscriptionChanges(walletAddress, refresh) : () => {};
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeUpdated();
+      unsubscribeOtherTabs();
+    };
+  }, [refresh, walletAddress]);
+
+  return { store, subscriptions, isLoading, refresh };
+}
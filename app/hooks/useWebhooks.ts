@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '@lazorkit/wallet';
+import type { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '../lib/subscription/webhooks';
+import { MERCHANT_WALLET_ADDRESS, merchantRequest } from '../lib/subscription/merchantApi';
+import { useWalletSigner } from './useSubscriptionStore';
+
+// Registered endpoints and the delivery log, with the actions the merchant page offers.
+// The webhook API only answers the merchant wallet.
+export function useWebhooks() {
+  useWalletSigner();
+  const { wallet } = useWallet();
+  const isMerchant = wallet?.smartWallet === MERCHANT_WALLET_ADDRESS;
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!isMerchant) {
+      setEndpoints([]);
+      setDeliveries([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [endpointList, deliveryLog] = await Promise.all([
+        merchantRequest<{ endpoints: WebhookEndpoint[] }>('/webhooks'),
+        merchantRequest<{ deliveries: WebhookDelivery[] }>('/webhooks/deliveries'),
+      ]);
+      setEndpoints(endpointList?.endpoints ?? []);
+      setDeliveries(deliveryLog?.deliveries ?? []);
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isMerchant]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Resolves to the new endpoint including its full secret
+  const registerEndpoint = useCallback(
+    async (url: string, events: WebhookEventType[]) => {
+      const body = await merchantRequest<{ endpoint: WebhookEndpoint }>('/webhooks', {
+        method: 'POST',
+        body: JSON.stringify({ url, events }),
+      });
+      await refresh();
+      return body?.endpoint;
+    },
+    [refresh]
+  );
+
+  const removeEndpoint = useCallback(
+    async (endpointId: string) => {
+      await merchantRequest(`/webhooks/${encodeURIComponent(endpointId)}`, { method: 'DELETE' });
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const redeliver = useCallback(
+    async (deliveryId: string) => {
+      await merchantRequest(`/webhooks/deliveries/${encodeURIComponent(deliveryId)}/redeliver`, { method: 'POST' });
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { endpoints, deliveries, isLoading, refresh, registerEndpoint, removeEndpoint, redeliver };
+}
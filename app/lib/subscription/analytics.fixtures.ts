@@ -0,0 +1,158 @@
+import type { PaymentRecord, Subscription } from './types';
+
+// A small book of subscriptions with hand-worked revenue figures, used by analytics.test.ts.
+// Amounts are in SOL unless noted; the range runs from Jan 1 to Apr 1 2026.
+//
+//   wallet      plan             at Jan 1   at Apr 1   movement
+//   alice       0.1/month        0.1        0.1        steady
+//   alice       0.1/month        0.1        0.1        steady, paused since Feb (same wallet)
+//   bob         0.2 → 0.5/month  0.2        0.5        expansion 0.3 on Feb 10
+//   carol       1.2/year         0.1        0          churned 0.1, cancelled Feb 20
+//   dave        0.3/month        0          0.3        new 0.3 on Feb 5
+//   erin        0.5 → 0.2/month  0.5        0.2        contraction 0.3 on Jan 20
+//   frank       0.1/month        0.1        0          churned 0.1, expired when paid period ended Jan 5
+//   grace       0.2/month        0.2        0.2        steady; credit and overage don't move it
+//   judy        0.1/month        0          0.1        new 0.1 on Jan 3; a later failed charge is ignored
+//   heidi       10 USD/month     –          –          priced in USD, left out of SOL figures
+
+export const RANGE = { start: Date.UTC(2026, 0, 1), end: Date.UTC(2026, 3, 1) };
+
+let paymentCount = 0;
+
+function payment(
+  subscriptionId: string,
+  timestamp: number,
+  amount: number,
+  extra: Partial<PaymentRecord> = {}
+): PaymentRecord {
+  paymentCount += 1;
+  return {
+    id: `pay_fixture_${paymentCount}`,
+    subscriptionId,
+    amount,
+    timestamp,
+    txSignature: `sig_fixture_${paymentCount}`,
+    status: 'success',
+    kind: 'renewal',
+    ...extra,
+  };
+}
+
+function subscription(
+  id: string,
+  walletAddress: string,
+  fields: Partial<Subscription> & Pick<Subscription, 'amount' | 'paymentHistory'>
+): Subscription {
+  return {
+    id,
+    planId: 'starter',
+    walletAddress,
+    status: 'active',
+    createdAt: fields.paymentHistory[0]?.timestamp ?? RANGE.start,
+    nextBillingDate: RANGE.end,
+    interval: 'month',
+    ...fields,
+  };
+}
+
+export const SUBSCRIPTIONS: Subscription[] = [
+  subscription('alice-1', 'alice', {
+    amount: 0.1,
+    paymentHistory: [
+      payment('alice-1', Date.UTC(2025, 11, 15), 0.1, { kind: 'initial' }),
+      payment('alice-1', Date.UTC(2026, 0, 15), 0.1),
+      payment('alice-1', Date.UTC(2026, 1, 15), 0.1),
+      payment('alice-1', Date.UTC(2026, 2, 15), 0.1),
+    ],
+  }),
+  subscription('alice-2', 'alice', {
+    status: 'paused',
+    amount: 0.1,
+    pausedAt: Date.UTC(2026, 1, 1),
+    pausedUntil: Date.UTC(2026, 4, 1),
+    paymentHistory: [
+      payment('alice-2', Date.UTC(2025, 11, 12), 0.1, { kind: 'initial' }),
+      payment('alice-2', Date.UTC(2026, 0, 12), 0.1),
+    ],
+  }),
+  subscription('bob-1', 'bob', {
+    planId: 'pro',
+    amount: 0.5,
+    paymentHistory: [
+      payment('bob-1', Date.UTC(2025, 11, 10), 0.2, { kind: 'initial' }),
+      payment('bob-1', Date.UTC(2026, 0, 10), 0.2),
+      payment('bob-1', Date.UTC(2026, 1, 10), 0.5),
+      payment('bob-1', Date.UTC(2026, 2, 10), 0.5),
+    ],
+  }),
+  subscription('carol-1', 'carol', {
+    status: 'cancelled',
+    interval: 'year',
+    amount: 1.2,
+    cancellationDate: Date.UTC(2026, 1, 20),
+    paymentHistory: [payment('carol-1', Date.UTC(2025, 10, 1), 1.2, { kind: 'initial' })],
+  }),
+  subscription('dave-1', 'dave', {
+    amount: 0.3,
+    paymentHistory: [
+      payment('dave-1', Date.UTC(2026, 1, 5), 0.3, { kind: 'initial' }),
+      payment('dave-1', Date.UTC(2026, 2, 5), 0.3),
+    ],
+  }),
+  subscription('erin-1', 'erin', {
+    amount: 0.2,
+    paymentHistory: [
+      payment('erin-1', Date.UTC(2025, 11, 20), 0.5, { kind: 'initial' }),
+      payment('erin-1', Date.UTC(2026, 0, 20), 0.2),
+      // Proration charges are one-off and never count towards MRR
+      payment('erin-1', Date.UTC(2026, 1, 2), 0.05, { kind: 'proration' }),
+      payment('erin-1', Date.UTC(2026, 1, 20), 0.2),
+      payment('erin-1', Date.UTC(2026, 2, 20), 0.2),
+    ],
+  }),
+  subscription('frank-1', 'frank', {
+    status: 'expired',
+    amount: 0.1,
+    paymentHistory: [
+      payment('frank-1', Date.UTC(2025, 11, 5), 0.1, {
+        kind: 'initial',
+        invoice: { planId: 'starter', periodStart: Date.UTC(2025, 11, 5), periodEnd: Date.UTC(2026, 0, 5) },
+      }),
+      payment('frank-1', Date.UTC(2026, 0, 5), 0.1, { status: 'failed', failureReason: 'insufficient_funds' }),
+    ],
+  }),
+  subscription('grace-1', 'grace', {
+    amount: 0.2,
+    paymentHistory: [
+      payment('grace-1', Date.UTC(2025, 11, 28), 0.2, { kind: 'initial' }),
+      // 0.05 of the 0.2 came from account credit, and 0.1 of usage overage was billed on top
+      payment('grace-1', Date.UTC(2026, 2, 1), 0.25, {
+        creditApplied: 0.05,
+        overage: {
+          periodStart: Date.UTC(2026, 0, 28),
+          periodEnd: Date.UTC(2026, 2, 1),
+          quantity: 30,
+          included: 20,
+          unitPrice: 0.01,
+          amount: 0.1,
+        },
+      }),
+    ],
+  }),
+  subscription('judy-1', 'judy', {
+    status: 'past_due',
+    amount: 0.1,
+    paymentHistory: [
+      payment('judy-1', Date.UTC(2026, 0, 3), 0.1, { kind: 'initial' }),
+      payment('judy-1', Date.UTC(2026, 1, 3), 0.1, { status: 'failed', failureReason: 'insufficient_funds' }),
+    ],
+  }),
+  subscription('heidi-1', 'heidi', {
+    amount: 10,
+    priceCurrency: 'USD',
+    paymentHistory: [
+      payment('heidi-1', Date.UTC(2025, 11, 1), 10, { kind: 'initial' }),
+      payment('heidi-1', Date.UTC(2026, 0, 1), 10),
+    ],
+  }),
+];
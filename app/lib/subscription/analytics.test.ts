@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  estimateLtv,
+  getArpu,
+  getChurnDate,
+  getLogoChurn,
+  getMonthEnds,
+  getMrr,
+  getMrrMovements,
+  getMrrSeries,
+  getSubscriptionMrr,
+  summarizeRevenue,
+  toMonthlyChurnRate,
+} from './analytics';
+import { RANGE, SUBSCRIPTIONS } from './analytics.fixtures';
+
+const sol = SUBSCRIPTIONS.filter((subscription) => !subscription.priceCurrency);
+const byId = (id: string) => SUBSCRIPTIONS.find((subscription) => subscription.id === id)!;
+
+describe('MRR', () => {
+  it('normalises each subscription’s last charge to a month', () => {
+    expect(getSubscriptionMrr(byId('carol-1'), RANGE.start)).toBeCloseTo(0.1);
+    expect(getSubscriptionMrr(byId('bob-1'), RANGE.start)).toBe(0.2);
+    expect(getSubscriptionMrr(byId('bob-1'), RANGE.end)).toBe(0.5);
+  });
+
+  it('counts credit as paid and leaves out overage', () => {
+    expect(getSubscriptionMrr(byId('grace-1'), RANGE.end)).toBeCloseTo(0.2);
+  });
+
+  it('ignores proration and failed charges', () => {
+    expect(getSubscriptionMrr(byId('erin-1'), Date.UTC(2026, 1, 10))).toBe(0.2);
+    expect(getSubscriptionMrr(byId('judy-1'), RANGE.end)).toBe(0.1);
+  });
+
+  it('keeps paused subscriptions and drops churned ones', () => {
+    expect(getSubscriptionMrr(byId('alice-2'), RANGE.end)).toBe(0.1);
+    expect(getSubscriptionMrr(byId('carol-1'), RANGE.end)).toBe(0);
+    expect(getSubscriptionMrr(byId('frank-1'), RANGE.end)).toBe(0);
+  });
+
+  it('totals the book at a moment', () => {
+    expect(getMrr(sol, RANGE.start)).toBe(1.3);
+    expect(getMrr(sol, RANGE.end)).toBe(1.5);
+  });
+});
+
+describe('churn dates', () => {
+  it('uses the cancellation date for cancelled subscriptions', () => {
+    expect(getChurnDate(byId('carol-1'))).toBe(Date.UTC(2026, 1, 20));
+  });
+
+  it('uses the end of the last paid period for expired subscriptions', () => {
+    expect(getChurnDate(byId('frank-1'))).toBe(Date.UTC(2026, 0, 5));
+  });
+
+  it('leaves paused and past-due subscriptions unchurned', () => {
+    expect(getChurnDate(byId('alice-2'))).toBeUndefined();
+    expect(getChurnDate(byId('judy-1'))).toBeUndefined();
+  });
+});
+
+describe('MRR movements', () => {
+  it('splits the change over the range into new, expansion, contraction and churn', () => {
+    expect(getMrrMovements(sol, RANGE)).toEqual({
+      startMrr: 1.3,
+      endMrr: 1.5,
+      newMrr: 0.4,
+      expansionMrr: 0.3,
+      contractionMrr: 0.3,
+      churnedMrr: 0.2,
+      netNewMrr: 0.2,
+    });
+  });
+
+  it('reconcile: start + new + expansion - contraction - churned = end', () => {
+    const { startMrr, endMrr, newMrr, expansionMrr, contractionMrr, churnedMrr } = getMrrMovements(sol, RANGE);
+    expect(startMrr + newMrr + expansionMrr - contractionMrr - churnedMrr).toBeCloseTo(endMrr);
+  });
+});
+
+describe('customers', () => {
+  it('counts wallets, not subscriptions, and churns the ones paying at the start that stopped', () => {
+    expect(getLogoChurn(sol, RANGE)).toEqual({
+      customersAtStart: 6,
+      customersAtEnd: 6,
+      churnedCustomers: 2,
+      logoChurnRate: 2 / 6,
+    });
+  });
+
+  it('divides MRR by paying wallets for ARPU', () => {
+    expect(getArpu(sol, RANGE.end)).toBe(0.25);
+    expect(getArpu([], RANGE.end)).toBe(0);
+  });
+});
+
+describe('churn rate and LTV', () => {
+  it('compounds the range’s churn down to a month', () => {
+    // Jan 1 to Apr 1 is 90 days, or 2.957 average months
+    expect(toMonthlyChurnRate(2 / 6, RANGE)).toBeCloseTo(0.128149, 6);
+    expect(toMonthlyChurnRate(0, RANGE)).toBe(0);
+    expect(toMonthlyChurnRate(1, RANGE)).toBe(1);
+  });
+
+  it('divides ARPU by monthly churn for LTV, and leaves it blank while nobody has churned', () => {
+    expect(estimateLtv(0.25, 0.125)).toBe(2);
+    expect(estimateLtv(0.25, 0)).toBeNull();
+  });
+});
+
+describe('summarizeRevenue', () => {
+  it('reports the SOL book on its own', () => {
+    const summary = summarizeRevenue(SUBSCRIPTIONS, 'SOL', RANGE);
+    expect(summary).toMatchObject({
+      unit: 'SOL',
+      startMrr: 1.3,
+      endMrr: 1.5,
+      customersAtStart: 6,
+      customersAtEnd: 6,
+      churnedCustomers: 2,
+      arpu: 0.25,
+    });
+    expect(summary.monthlyChurnRate).toBeCloseTo(0.128149, 6);
+    expect(summary.ltv).toBeCloseTo(1.950847, 5);
+  });
+
+  it('reports other price units separately', () => {
+    expect(summarizeRevenue(SUBSCRIPTIONS, 'USD', RANGE)).toMatchObject({
+      startMrr: 10,
+      endMrr: 10,
+      customersAtEnd: 1,
+      churnedCustomers: 0,
+      ltv: null,
+    });
+  });
+});
+
+describe('getMrrSeries', () => {
+  it('has a point at each month end and at the end of the range', () => {
+    expect(getMonthEnds(RANGE)).toEqual([
+      Date.UTC(2026, 1, 1) - 1,
+      Date.UTC(2026, 2, 1) - 1,
+      Date.UTC(2026, 3, 1) - 1,
+      RANGE.end,
+    ]);
+  });
+
+  it('places each movement in the month it happened', () => {
+    const [january, february, march, lastMoment] = getMrrSeries(SUBSCRIPTIONS, 'SOL', RANGE);
+
+    expect(january).toMatchObject({ startMrr: 1.3, newMrr: 0.1, contractionMrr: 0.3, churnedMrr: 0.1, endMrr: 1 });
+    expect(february).toMatchObject({ startMrr: 1, newMrr: 0.3, expansionMrr: 0.3, churnedMrr: 0.1, endMrr: 1.5 });
+    expect(march).toMatchObject({ startMrr: 1.5, netNewMrr: 0, endMrr: 1.5 });
+    expect(lastMoment).toMatchObject({ startMrr: 1.5, netNewMrr: 0, endMrr: 1.5 });
+  });
+});
@@ -0,0 +1,223 @@
+import type { BillingInterval, PaymentRecord, Subscription } from './types';
+import { INTERVAL_MONTHS } from './calendar';
+import { getPriceUnit } from './pricing';
+
+// Revenue analytics over a set of subscriptions. Everything here is a pure function of
+// the subscriptions and the dates passed in; nothing reads the clock or the store.
+//
+// A subscription's MRR at a moment is its last initial or renewal charge, normalised to a
+// month, from that charge until it churns. Charges are taken net of discounts but before
+// account credit, since credit is money the subscriber already paid, and without usage
+// overage, which varies with the period before and isn't recurring. Cancelled subscriptions
+// churn on their cancellation date and expired ones when their last paid period ran out;
+// pauses are not counted as churn. Amounts in different price units can't be added, so every
+// figure is for a single unit.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_MS = 30.44 * DAY_MS;
+
+export interface DateRange {
+  start: number;
+  end: number;
+}
+
+// How MRR moved between the start and end of a range; start + new + expansion
+// - contraction - churned always equals end
+export interface MrrMovements {
+  startMrr: number;
+  endMrr: number;
+  newMrr: number;
+  expansionMrr: number;
+  contractionMrr: number;
+  churnedMrr: number;
+  netNewMrr: number;
+}
+
+export interface RevenueSummary extends MrrMovements {
+  unit: string;
+  range: DateRange;
+  customersAtStart: number;
+  customersAtEnd: number;
+  churnedCustomers: number;
+  // Share of the customers paying at the start who no longer pay at the end
+  logoChurnRate: number;
+  // logoChurnRate spread evenly over the months in the range
+  monthlyChurnRate: number;
+  arpu: number;
+  // ARPU over monthly churn; null while nobody has churned, since it would be unbounded
+  ltv: number | null;
+}
+
+export interface MrrPoint extends MrrMovements {
+  // End of the month the point covers
+  date: number;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+export function toMonthlyAmount(amount: number, interval: BillingInterval): number {
+  const months = interval === 'week' ? 12 / 52 : INTERVAL_MONTHS[interval];
+  return amount / months;
+}
+
+function isRecurringCharge(payment: PaymentRecord): boolean {
+  return payment.status === 'success' && payment.kind !== 'proration';
+}
+
+function getChargedAmount(payment: PaymentRecord): number {
+  return payment.amount + (payment.creditApplied ?? 0) - (payment.overage?.amount ?? 0);
+}
+
+// When the subscription stopped paying, if it has
+export function getChurnDate(subscription: Subscription): number | undefined {
+  if (subscription.status === 'cancelled') {
+    return subscription.cancellationDate ?? subscription.nextBillingDate;
+  }
+  if (subscription.status === 'expired') {
+    const lastCharge = subscription.paymentHistory.filter(isRecurringCharge).at(-1);
+    return lastCharge?.invoice?.periodEnd ?? subscription.nextBillingDate;
+  }
+  return undefined;
+}
+
+export function getSubscriptionMrr(subscription: Subscription, at: number): number {
+  const churnDate = getChurnDate(subscription);
+  if (churnDate !== undefined && churnDate <= at) return 0;
+
+  const charge = subscription.paymentHistory
+    .filter((payment) => isRecurringCharge(payment) && payment.timestamp <= at)
+    .at(-1);
+  if (!charge) return 0;
+  return toMonthlyAmount(getChargedAmount(charge), subscription.interval);
+}
+
+export function filterByUnit(subscriptions: Subscription[], unit: string): Subscription[] {
+  return subscriptions.filter((subscription) => getPriceUnit(subscription) === unit);
+}
+
+export function getMrr(subscriptions: Subscription[], at: number): number {
+  return round(subscriptions.reduce((sum, subscription) => sum + getSubscriptionMrr(subscription, at), 0));
+}
+
+export function getMrrMovements(subscriptions: Subscription[], { start, end }: DateRange): MrrMovements {
+  const movements: MrrMovements = {
+    startMrr: 0,
+    endMrr: 0,
+    newMrr: 0,
+    expansionMrr: 0,
+    contractionMrr: 0,
+    churnedMrr: 0,
+    netNewMrr: 0,
+  };
+
+  for (const subscription of subscriptions) {
+    const before = getSubscriptionMrr(subscription, start);
+    const after = getSubscriptionMrr(subscription, end);
+    movements.startMrr += before;
+    movements.endMrr += after;
+
+    if (before === 0 && after > 0) {
+      movements.newMrr += after;
+    } else if (before > 0 && after === 0) {
+      movements.churnedMrr += before;
+    } else if (after > before) {
+      movements.expansionMrr += after - before;
+    } else if (after < before) {
+      movements.contractionMrr += before - after;
+    }
+  }
+
+  movements.netNewMrr = movements.endMrr - movements.startMrr;
+  return {
+    startMrr: round(movements.startMrr),
+    endMrr: round(movements.endMrr),
+    newMrr: round(movements.newMrr),
+    expansionMrr: round(movements.expansionMrr),
+    contractionMrr: round(movements.contractionMrr),
+    churnedMrr: round(movements.churnedMrr),
+    netNewMrr: round(movements.netNewMrr),
+  };
+}
+
+// Customers are wallets: one wallet with two subscriptions is one logo
+export function getPayingCustomers(subscriptions: Subscription[], at: number): Set<string> {
+  return new Set(
+    subscriptions
+      .filter((subscription) => getSubscriptionMrr(subscription, at) > 0)
+      .map((subscription) => subscription.walletAddress)
+  );
+}
+
+export function getLogoChurn(subscriptions: Subscription[], { start, end }: DateRange) {
+  const atStart = getPayingCustomers(subscriptions, start);
+  const atEnd = getPayingCustomers(subscriptions, end);
+  const churned = [...atStart].filter((wallet) => !atEnd.has(wallet)).length;
+  return {
+    customersAtStart: atStart.size,
+    customersAtEnd: atEnd.size,
+    churnedCustomers: churned,
+    logoChurnRate: atStart.size === 0 ? 0 : churned / atStart.size,
+  };
+}
+
+export function getArpu(subscriptions: Subscription[], at: number): number {
+  const customers = getPayingCustomers(subscriptions, at).size;
+  return customers === 0 ? 0 : round(getMrr(subscriptions, at) / customers);
+}
+
+// Compounds a churn rate over a range down to the equivalent rate for one month
+export function toMonthlyChurnRate(churnRate: number, { start, end }: DateRange): number {
+  const months = (end - start) / AVERAGE_MONTH_MS;
+  if (months <= 0 || churnRate <= 0) return 0;
+  if (churnRate >= 1) return 1;
+  return 1 - Math.pow(1 - churnRate, 1 / months);
+}
+
+export function estimateLtv(arpu: number, monthlyChurnRate: number): number | null {
+  return monthlyChurnRate > 0 ? round(arpu / monthlyChurnRate) : null;
+}
+
+export function summarizeRevenue(subscriptions: Subscription[], unit: string, range: DateRange): RevenueSummary {
+  const priced = filterByUnit(subscriptions, unit);
+  const movements = getMrrMovements(priced, range);
+  const churn = getLogoChurn(priced, range);
+  const monthlyChurnRate = toMonthlyChurnRate(churn.logoChurnRate, range);
+  const arpu = getArpu(priced, range.end);
+
+  return {
+    unit,
+    range,
+    ...movements,
+    ...churn,
+    monthlyChurnRate,
+    arpu,
+    ltv: estimateLtv(arpu, monthlyChurnRate),
+  };
+}
+
+// Month ends (UTC) from the month containing `start` up to `end`, with `end` itself as the last point
+export function getMonthEnds({ start, end }: DateRange): number[] {
+  const points: number[] = [];
+  const date = new Date(start);
+  let monthEnd = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) - 1;
+  while (monthEnd < end) {
+    points.push(monthEnd);
+    const next = new Date(monthEnd + 1);
+    monthEnd = Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 1) - 1;
+  }
+  points.push(end);
+  return points;
+}
+
+// One point per month: MRR at the month's end and how it moved during the month
+export function getMrrSeries(subscriptions: Subscription[], unit: string, range: DateRange): MrrPoint[] {
+  const priced = filterByUnit(subscriptions, unit);
+  let previous = range.start;
+  return getMonthEnds(range).map((date) => {
+    const point = { date, ...getMrrMovements(priced, { start: previous, end: date }) };
+    previous = date;
+    return point;
+  });
+}
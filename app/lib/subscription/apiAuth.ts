@@ -0,0 +1,31 @@
+// Shared by the subscription API routes and the http store. Writes are authorised
+// with a session token, which the server issues in exchange for a message signed
+// by the wallet's passkey.
+
+// LazorKit program that owns the walletDevice accounts linking a passkey to a smart wallet
+export const LAZORKIT_PROGRAM_ID = 'Gsuz7YcA5sbMGVRXT3xSYhJBessW4xFC4xYsihNCqMFh';
+
+// How far the signed issuedAt may be from the server's clock
+export const SESSION_MESSAGE_MAX_AGE_MS = 5 * 60 * 1000;
+export const SESSION_TTL_MS = 60 * 60 * 1000;
+
+export interface SessionRequest {
+  walletAddress: string;
+  walletDevice: string;
+  issuedAt: number;
+  signature: string;
+  signedPayload: string;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+export function buildSessionMessage(walletAddress: string, issuedAt: number): string {
+  return [
+    'Authorize subscription changes',
+    `Wallet: ${walletAddress}`,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
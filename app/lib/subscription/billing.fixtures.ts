@@ -0,0 +1,68 @@
+import { vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import type { BillingRunnerDeps } from './billing';
+import type { PaymentRecord, Subscription } from './types';
+
+// Shared setup for tests that charge subscriptions: a wallet, a Basic subscription paid
+// for January 2026, and billing dependencies with a fake clock and a stubbed wallet and
+// connection, so nothing is signed or sent.
+
+export const PAYER = Keypair.generate().publicKey;
+export const WALLET = PAYER.toBase58();
+
+export const JAN_1 = Date.UTC(2026, 0, 1);
+export const FEB_1 = Date.UTC(2026, 1, 1);
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function paidSubscription(fields: Partial<Subscription> = {}): Subscription {
+  const initial: PaymentRecord = {
+    id: 'pay_initial',
+    subscriptionId: 'sub_basic',
+    amount: 0.1,
+    timestamp: JAN_1,
+    txSignature: 'sig_initial',
+    status: 'success',
+    kind: 'initial',
+    invoice: { planId: 'basic', planVersion: 1, periodStart: JAN_1, periodEnd: FEB_1 },
+  };
+  return {
+    id: 'sub_basic',
+    planId: 'basic',
+    planVersion: 1,
+    walletAddress: WALLET,
+    status: 'active',
+    createdAt: JAN_1,
+    billingAnchor: JAN_1,
+    nextBillingDate: FEB_1,
+    amount: 0.1,
+    interval: 'month',
+    paymentHistory: [initial],
+    ...fields,
+  };
+}
+
+export interface TestDeps extends BillingRunnerDeps {
+  setNow(time: number): void;
+  signAndSendTransaction: ReturnType<typeof vi.fn> & BillingRunnerDeps['signAndSendTransaction'];
+}
+
+// Each send returns a new signature (sig_1, sig_2, ...) unless the test stubs a failure
+export function createTestDeps(now: number): TestDeps {
+  let time = now;
+  let sent = 0;
+  const signAndSendTransaction = vi.fn(async () => `sig_${++sent}`);
+  const connection = {
+    confirmTransaction: vi.fn(async () => ({ context: { slot: 1 }, value: { err: null } })),
+  } as unknown as BillingRunnerDeps['connection'];
+
+  return {
+    walletAddress: WALLET,
+    payer: PAYER,
+    signAndSendTransaction: signAndSendTransaction as TestDeps['signAndSendTransaction'],
+    connection,
+    now: () => time,
+    setNow(next) {
+      time = next;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runBillingCycle } from './billing';
+import { addSubscription, getSubscription, resetSubscriptions } from './storage.fixtures';
+import { DAY_MS, FEB_1, JAN_1, WALLET, createTestDeps, paidSubscription } from './billing.fixtures';
+
+vi.mock('./storage', () => import('./storage.fixtures'));
+
+const MAR_1 = Date.UTC(2026, 2, 1);
+
+beforeEach(async () => {
+  resetSubscriptions();
+  await addSubscription(WALLET, paidSubscription());
+});
+
+describe('runBillingCycle', () => {
+  it('charges a due renewal and moves nextBillingDate to the next period', async () => {
+    const deps = createTestDeps(FEB_1 + 60 * 60 * 1000);
+
+    expect(await runBillingCycle(deps)).toEqual([
+      { subscriptionId: 'sub_basic', status: 'charged', txSignature: 'sig_1' },
+    ]);
+    expect(deps.signAndSendTransaction).toHaveBeenCalledTimes(1);
+    expect(deps.connection.confirmTransaction).toHaveBeenCalledWith('sig_1', 'confirmed');
+
+    const stored = (await getSubscription(WALLET, 'sub_basic'))!;
+    expect(stored.nextBillingDate).toBe(MAR_1);
+    expect(stored.paymentHistory.at(-1)).toMatchObject({
+      amount: 0.1,
+      status: 'success',
+      kind: 'renewal',
+      txSignature: 'sig_1',
+      invoice: { periodStart: FEB_1, periodEnd: MAR_1 },
+    });
+  });
+
+  it('skips subscriptions that are not due yet', async () => {
+    const deps = createTestDeps(JAN_1 + 20 * DAY_MS);
+
+    expect(await runBillingCycle(deps)).toEqual([]);
+    expect(deps.signAndSendTransaction).not.toHaveBeenCalled();
+    expect((await getSubscription(WALLET, 'sub_basic'))!.paymentHistory).toHaveLength(1);
+  });
+
+  it('records a failed send without moving nextBillingDate', async () => {
+    const deps = createTestDeps(FEB_1);
+    deps.signAndSendTransaction.mockRejectedValueOnce(new Error('Attempt to debit an account but found insufficient funds'));
+
+    const [result] = await runBillingCycle(deps);
+    expect(result).toMatchObject({ status: 'failed', failureReason: 'insufficient_funds' });
+
+    const stored = (await getSubscription(WALLET, 'sub_basic'))!;
+    expect(stored.nextBillingDate).toBe(FEB_1);
+    expect(stored.status).toBe('past_due');
+    expect(stored.paymentHistory.at(-1)).toMatchObject({
+      amount: 0.1,
+      status: 'failed',
+      failureReason: 'insufficient_funds',
+      timestamp: FEB_1,
+    });
+  });
+
+  it('charges once when the clock moves on and it runs again', async () => {
+    const deps = createTestDeps(FEB_1);
+    await runBillingCycle(deps);
+    deps.setNow(FEB_1 + 10 * DAY_MS);
+
+    expect(await runBillingCycle(deps)).toEqual([]);
+    expect(deps.signAndSendTransaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,297 @@
+import { SystemProgram, PublicKey, Connection, TransactionInstruction } from '@solana/web3.js';
+import type { WalletHookInterface } from '@lazorkit/wallet';
+import type { Subscription, PaymentCurrency, PaymentDiscount, PaymentFailureReason } from './types';
+import { getSubscription, getSubscriptions, updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { addPaymentRecord, isBillingDue, roundSol, toLamports } from './utils';
+import { getBillingAnchor, getNextRenewalAfter, getPeriodStart } from './calendar';
+import { classifyPaymentError, clearDunning, isGracePeriodOver, isRetryDue, markPaymentFailed } from './dunning';
+import { applyDuePlanChange } from './planChanges';
+import { endTrial, isTrialConversionDue } from './trials';
+import { resumeDueSubscriptions } from './pauses';
+import { endCancelledSubscriptions } from './cancellations';
+import { calculateDiscountAmount, consumeDiscountCycle } from './coupons';
+import { calculateOverage, getUnbilledUsage } from './usage';
+import { buildTokenPaymentInstructions, getCurrency, isTokenCurrency, type TokenConnection } from './tokens';
+import { quoteCharge, type ChargeQuote, type PriceFeed } from './pricing';
+import { createInvoiceReference } from './invoices';
+import { MERCHANT_WALLET, DUNNING_CONFIG, SOL_CURRENCY, type DunningConfig } from './config';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+export interface PaymentDeps {
+  payer: PublicKey;
+  signAndSendTransaction: WalletHookInterface['signAndSendTransaction'];
+  connection: Pick<Connection, 'confirmTransaction'> & TokenConnection;
+  merchant?: PublicKey;
+  // Converts fiat-priced charges; defaults to the local stub feed
+  priceFeed?: PriceFeed;
+}
+
+export interface BillingRunnerDeps extends PaymentDeps {
+  walletAddress: string;
+  // Injectable clock so billing can be driven by a fake time source
+  now?: () => number;
+  dunning?: DunningConfig;
+}
+
+export interface BillingResult {
+  subscriptionId: string;
+  // 'skipped' when another tab charged or changed the subscription first
+  status: 'charged' | 'failed' | 'skipped';
+  txSignature?: string;
+  error?: string;
+  failureReason?: PaymentFailureReason;
+}
+
+export async function getDueSubscriptions(walletAddress: string, now: number = Date.now()): Promise<Subscription[]> {
+  return (await getSubscriptions(walletAddress)).filter(
+    (sub) => isBillingDue(sub, now) || isRetryDue(sub, now) || isTrialConversionDue(sub, now)
+  );
+}
+
+export async function expireLapsedSubscriptions(
+  walletAddress: string,
+  now: number = Date.now(),
+  config: DunningConfig = DUNNING_CONFIG
+): Promise<Subscription[]> {
+  const lapsed = (await getSubscriptions(walletAddress)).filter((sub) => isGracePeriodOver(sub, now, config));
+  const expired: Subscription[] = [];
+
+  for (const subscription of lapsed) {
+    await withSubscriptionLock(walletAddress, subscription.id, async () => {
+      // A payment made in another tab may have brought it back meanwhile
+      const current = await getSubscription(walletAddress, subscription.id);
+      if (!current || !isGracePeriodOver(current, now, config)) return;
+
+      await updateSubscription(walletAddress, subscription.id, {
+        status: 'expired',
+        nextRetryAt: undefined,
+      });
+      expired.push(current);
+      dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+        subscriptionId: subscription.id,
+        action: 'expired',
+      });
+    });
+  }
+
+  return expired;
+}
+
+// Advances along the anchor's calendar rather than from "now" so the billing day
+// stays stable, skipping any periods that elapsed while the app was closed.
+export function advanceBillingDate(subscription: Subscription, now: number): number {
+  return getNextRenewalAfter(
+    getBillingAnchor(subscription),
+    subscription.interval,
+    Math.max(now, subscription.nextBillingDate)
+  );
+}
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+export function buildMemoInstruction(memo: string): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [],
+    data: Buffer.from(memo, 'utf8'),
+  });
+}
+
+// The memo, when given, goes into the same transaction, so the payment can be found
+// on-chain by it later (see checkout.ts)
+export async function sendPayment(
+  amount: number,
+  deps: PaymentDeps,
+  currency: PaymentCurrency = SOL_CURRENCY,
+  memo?: string
+): Promise<string> {
+  const merchant = deps.merchant ?? MERCHANT_WALLET;
+  const instructions = isTokenCurrency(currency)
+    ? await buildTokenPaymentInstructions(amount, currency, deps.payer, merchant, deps.connection)
+    : [
+        SystemProgram.transfer({
+          fromPubkey: deps.payer,
+          toPubkey: merchant,
+          lamports: toLamports(amount),
+        }),
+      ];
+
+  if (memo) {
+    instructions.push(buildMemoInstruction(memo));
+  }
+
+  const txSignature = await deps.signAndSendTransaction({
+    instructions,
+  });
+  await deps.connection.confirmTransaction(txSignature, 'confirmed');
+
+  return txSignature;
+}
+
+// True when the stored copy has moved on from the one a charge was decided on:
+// paid, failed, cancelled or rescheduled by someone else in the meantime
+function hasBillingStateChanged(seen: Subscription, stored: Subscription): boolean {
+  return (
+    stored.status !== seen.status ||
+    stored.nextBillingDate !== seen.nextBillingDate ||
+    stored.paymentHistory.length !== seen.paymentHistory.length
+  );
+}
+
+// Charges under the subscription's lock, so a renewal that comes due while several tabs
+// are open is charged once. The tabs that wait their turn find it already handled.
+export async function chargeSubscription(
+  seen: Subscription,
+  deps: BillingRunnerDeps
+): Promise<BillingResult> {
+  return withSubscriptionLock(deps.walletAddress, seen.id, async (): Promise<BillingResult> => {
+    const current = await getSubscription(deps.walletAddress, seen.id);
+    if (!current || hasBillingStateChanged(seen, current)) {
+      return { subscriptionId: seen.id, status: 'skipped', error: 'Already handled in another tab' };
+    }
+    return charge(current, deps);
+  });
+}
+
+async function charge(current: Subscription, deps: BillingRunnerDeps): Promise<BillingResult> {
+  const now = deps.now ?? Date.now;
+  const subscription = applyDuePlanChange(current, now());
+  // The new period is billed under the scheduled plan whether or not the charge succeeds
+  const planUpdates: Partial<Subscription> =
+    subscription === current
+      ? {}
+      : {
+          planId: subscription.planId,
+          planVersion: subscription.planVersion,
+          amount: subscription.amount,
+          pendingChange: undefined,
+        };
+  const discountAmount = calculateDiscountAmount(subscription.amount, subscription.discount);
+  const discount: PaymentDiscount | undefined =
+    discountAmount > 0 && subscription.discount
+      ? { couponCode: subscription.discount.couponCode, amount: discountAmount }
+      : undefined;
+  const discountedAmount = roundSol(subscription.amount - discountAmount);
+  const isTrialConversion = subscription.status === 'trialing';
+  // Usage is billed in arrears at the plan it happened under; usage during a trial is free
+  const overage = isTrialConversion ? undefined : calculateOverage(current);
+  const totalDue = roundSol(discountedAmount + (overage?.amount ?? 0));
+  // Credit left over from a downgrade is spent before anything is charged on-chain
+  const creditApplied = Math.min(subscription.creditBalance ?? 0, totalDue);
+  const amountDue = roundSol(totalDue - creditApplied);
+  let txSignature = '';
+  let quote: ChargeQuote | null = null;
+
+  try {
+    quote = toLamports(amountDue) > 0 ? await quoteCharge(amountDue, subscription, deps.priceFeed) : null;
+    if (quote) {
+      txSignature = await sendPayment(quote.amount, deps, getCurrency(subscription));
+    }
+  } catch (err: unknown) {
+    const errorObj = err as { message?: string };
+    const failureReason = classifyPaymentError(err);
+    const failedAt = now();
+    console.error('Subscription renewal error:', err);
+
+    // Declining the conversion prompt is the user's answer, not a payment failure
+    if (isTrialConversion && failureReason === 'user_rejected') {
+      await endTrial(deps.walletAddress, subscription, failedAt);
+      return {
+        subscriptionId: subscription.id,
+        status: 'failed',
+        error: 'Trial ended without converting',
+        failureReason,
+      };
+    }
+
+    const updated = addPaymentRecord(subscription, {
+      amount: amountDue,
+      timestamp: failedAt,
+      txSignature,
+      status: 'failed',
+      kind: isTrialConversion ? 'initial' : 'renewal',
+      failureReason,
+      ...(discount && { discount }),
+      ...(overage && { overage }),
+    });
+
+    await updateSubscription(deps.walletAddress, subscription.id, {
+      ...planUpdates,
+      ...markPaymentFailed(subscription, failedAt, deps.dunning),
+      paymentHistory: updated.paymentHistory,
+    });
+
+    dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+      subscriptionId: subscription.id,
+      action: 'payment_failed',
+      failureReason,
+    });
+
+    return {
+      subscriptionId: subscription.id,
+      status: 'failed',
+      error: errorObj?.message || 'Renewal failed',
+      failureReason,
+    };
+  }
+
+  // The payment has confirmed, so a failed write from here on must not be recorded
+  // as a failed charge; reconciliation restores the record from the chain instead
+  const chargedAt = now();
+  const periodEnd = advanceBillingDate(subscription, chargedAt);
+  const periodStart = getPeriodStart(getBillingAnchor(subscription), subscription.interval, periodEnd);
+  const updated = addPaymentRecord(subscription, {
+    amount: amountDue,
+    timestamp: chargedAt,
+    txSignature,
+    status: 'success',
+    kind: isTrialConversion ? 'initial' : 'renewal',
+    ...(creditApplied > 0 && { creditApplied }),
+    ...(discount && { discount }),
+    ...(overage && { overage }),
+    ...(quote?.exchangeRate && { settledAmount: quote.amount, exchangeRate: quote.exchangeRate }),
+    invoice: createInvoiceReference(subscription, periodStart, periodEnd),
+  });
+
+  await updateSubscription(deps.walletAddress, subscription.id, {
+    ...planUpdates,
+    ...clearDunning(),
+    paymentHistory: updated.paymentHistory,
+    nextBillingDate: periodEnd,
+    creditBalance: roundSol((subscription.creditBalance ?? 0) - creditApplied) || undefined,
+    prorationCredits: undefined,
+    discount: consumeDiscountCycle(subscription.discount),
+    usageEvents: getUnbilledUsage(subscription, subscription.nextBillingDate),
+  });
+
+  if (txSignature) {
+    dispatchWalletEvent(WALLET_EVENTS.TRANSACTION_COMPLETED, {
+      signature: txSignature,
+      type: 'subscription_renewal',
+    });
+    dispatchWalletEvent(WALLET_EVENTS.BALANCE_UPDATED);
+  }
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: isTrialConversion ? 'trial_converted' : 'renewed',
+  });
+
+  return { subscriptionId: subscription.id, status: 'charged', txSignature };
+}
+
+export async function runBillingCycle(deps: BillingRunnerDeps): Promise<BillingResult[]> {
+  const now = deps.now ?? Date.now;
+  const results: BillingResult[] = [];
+
+  await expireLapsedSubscriptions(deps.walletAddress, now(), deps.dunning);
+  await resumeDueSubscriptions(deps.walletAddress, now());
+  await endCancelledSubscriptions(deps.walletAddress, now());
+
+  // Charge sequentially so the user only ever sees one passkey prompt at a time
+  for (const subscription of await getDueSubscriptions(deps.walletAddress, now())) {
+    results.push(await chargeSubscription(subscription, deps));
+  }
+
+  return results;
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { BillingInterval } from './types';
+import { daysInMonth, getNextRenewalAfter, getPeriodStart, getRenewalDate, isLeapYear } from './calendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const anchors = fc.integer({ min: Date.UTC(1990, 0, 1), max: Date.UTC(2100, 0, 1) });
+const intervals = fc.constantFrom<BillingInterval>('week', 'month', 'quarter', 'year');
+const monthlyIntervals = fc.constantFrom<Exclude<BillingInterval, 'week'>>('month', 'quarter', 'year');
+const cycleCounts = fc.integer({ min: 0, max: 240 });
+
+const MONTHS: Record<Exclude<BillingInterval, 'week'>, number> = { month: 1, quarter: 3, year: 12 };
+
+// Wall-clock parts of a timestamp in a time zone, read independently of calendar.ts
+function localParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: value('year'), month: value('month') - 1, day: value('day'), hour: value('hour'), minute: value('minute') };
+}
+
+describe('isLeapYear and daysInMonth', () => {
+  it('agree with the JavaScript calendar for every month', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1600, max: 2400 }), fc.integer({ min: 0, max: 11 }), (year, month) => {
+        const lastDay = new Date(Date.UTC(2000, month + 1, 0));
+        lastDay.setUTCFullYear(year, month + 1, 0);
+        expect(daysInMonth(year, month)).toBe(lastDay.getUTCDate());
+        expect(isLeapYear(year)).toBe(daysInMonth(year, 1) === 29);
+      })
+    );
+  });
+
+  it('follows the century rules', () => {
+    expect(isLeapYear(2000)).toBe(true);
+    expect(isLeapYear(1900)).toBe(false);
+    expect(isLeapYear(2100)).toBe(false);
+    expect(isLeapYear(2024)).toBe(true);
+    expect(isLeapYear(2023)).toBe(false);
+  });
+});
+
+describe('getRenewalDate in UTC', () => {
+  it('returns the anchor itself after zero cycles', () => {
+    fc.assert(
+      fc.property(anchors, intervals, (anchor, interval) => {
+        expect(getRenewalDate(anchor, interval, 0, 'UTC')).toBe(anchor);
+      })
+    );
+  });
+
+  it('keeps the anchor day, clamped to the end of shorter months, and the time of day', () => {
+    fc.assert(
+      fc.property(anchors, monthlyIntervals, cycleCounts, (anchor, interval, cycles) => {
+        const start = new Date(anchor);
+        const renewal = new Date(getRenewalDate(anchor, interval, cycles, 'UTC'));
+        const totalMonths = start.getUTCFullYear() * 12 + start.getUTCMonth() + MONTHS[interval] * cycles;
+        const year = Math.floor(totalMonths / 12);
+        const month = totalMonths % 12;
+
+        expect(renewal.getUTCFullYear()).toBe(year);
+        expect(renewal.getUTCMonth()).toBe(month);
+        expect(renewal.getUTCDate()).toBe(Math.min(start.getUTCDate(), daysInMonth(year, month)));
+        expect(renewal.getTime() % DAY_MS).toBe(anchor % DAY_MS);
+      })
+    );
+  });
+
+  it('does not drift after a short month', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1990, max: 2090 }), fc.integer({ min: 0, max: 23 }), (year, hour) => {
+        const anchor = Date.UTC(year, 0, 31, hour);
+        expect(new Date(getRenewalDate(anchor, 'month', 1, 'UTC')).getUTCDate()).toBe(daysInMonth(year, 1));
+        expect(getRenewalDate(anchor, 'month', 2, 'UTC')).toBe(Date.UTC(year, 2, 31, hour));
+      })
+    );
+  });
+
+  it('renews a Feb 29 yearly anchor on Feb 29 in leap years and Feb 28 otherwise', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 100 }), fc.integer({ min: 1, max: 40 }), (leapIndex, cycles) => {
+        const year = 1992 + leapIndex * 4;
+        fc.pre(isLeapYear(year));
+        const renewal = new Date(getRenewalDate(Date.UTC(year, 1, 29), 'year', cycles, 'UTC'));
+        expect(renewal.getUTCMonth()).toBe(1);
+        expect(renewal.getUTCDate()).toBe(isLeapYear(year + cycles) ? 29 : 28);
+      })
+    );
+  });
+
+  it('moves weekly renewals exactly seven days at a time', () => {
+    fc.assert(
+      fc.property(anchors, cycleCounts, (anchor, cycles) => {
+        expect(getRenewalDate(anchor, 'week', cycles, 'UTC')).toBe(anchor + cycles * 7 * DAY_MS);
+      })
+    );
+  });
+
+  it('is strictly increasing in the cycle count', () => {
+    fc.assert(
+      fc.property(anchors, intervals, cycleCounts, (anchor, interval, cycles) => {
+        expect(getRenewalDate(anchor, interval, cycles + 1, 'UTC')).toBeGreaterThan(
+          getRenewalDate(anchor, interval, cycles, 'UTC')
+        );
+      })
+    );
+  });
+});
+
+describe('getNextRenewalAfter and getPeriodStart', () => {
+  const offsets = fc.integer({ min: 0, max: 20 * 365 * DAY_MS });
+
+  it('bracket any time after the anchor with consecutive renewals', () => {
+    fc.assert(
+      fc.property(anchors, intervals, offsets, (anchor, interval, offset) => {
+        const time = anchor + offset;
+        const next = getNextRenewalAfter(anchor, interval, time, 'UTC');
+        const start = getPeriodStart(anchor, interval, next, 'UTC');
+
+        expect(next).toBeGreaterThan(time);
+        expect(start).toBeLessThanOrEqual(time);
+        expect(getNextRenewalAfter(anchor, interval, start, 'UTC')).toBe(next);
+      })
+    );
+  });
+
+  it('land on renewal dates of the anchor', () => {
+    fc.assert(
+      fc.property(anchors, intervals, fc.integer({ min: 1, max: 240 }), (anchor, interval, cycles) => {
+        const renewal = getRenewalDate(anchor, interval, cycles, 'UTC');
+        expect(getNextRenewalAfter(anchor, interval, renewal - 1, 'UTC')).toBe(renewal);
+        expect(getPeriodStart(anchor, interval, renewal, 'UTC')).toBe(
+          getRenewalDate(anchor, interval, cycles - 1, 'UTC')
+        );
+      })
+    );
+  });
+});
+
+describe('renewals across daylight saving time', () => {
+  const timeZones = fc.constantFrom('America/New_York', 'Europe/London', 'Australia/Sydney');
+  // Hours that exist on every day in these zones; the switches happen between 00:00 and 03:00
+  const safeHours = fc.integer({ min: 4, max: 23 });
+
+  it('keep the local time of day', () => {
+    fc.assert(
+      fc.property(
+        timeZones,
+        fc.integer({ min: 2000, max: 2040 }),
+        fc.integer({ min: 0, max: 11 }),
+        fc.integer({ min: 1, max: 31 }),
+        safeHours,
+        intervals,
+        fc.integer({ min: 1, max: 60 }),
+        (timeZone, year, month, day, hour, interval, cycles) => {
+          // Anchor at that wall-clock time, found among the UTC hours within a day of it
+          const anchorDay = Math.min(day, daysInMonth(year, month));
+          const anchor = Array.from({ length: 24 }, (_, index) => Date.UTC(year, month, anchorDay, hour + index - 12)).find(
+            (candidate) => {
+              const local = localParts(candidate, timeZone);
+              return local.day === anchorDay && local.hour === hour;
+            }
+          );
+          if (anchor === undefined) return;
+
+          const renewal = localParts(getRenewalDate(anchor, interval, cycles, timeZone), timeZone);
+          expect(renewal.hour).toBe(hour);
+          expect(renewal.minute).toBe(0);
+        }
+      )
+    );
+  });
+
+  it('pushes a renewal in the spring-forward gap later by the size of the gap', () => {
+    // 02:30 on Mar 9 2025 doesn't exist in New York; clocks jump from 02:00 EST to 03:00 EDT
+    const anchor = Date.UTC(2025, 2, 2, 7, 30); // Mar 2 02:30 EST
+    expect(getRenewalDate(anchor, 'week', 1, 'America/New_York')).toBe(Date.UTC(2025, 2, 9, 7, 30)); // 03:30 EDT
+  });
+
+  it('picks the earlier instant when the fall-back makes the time ambiguous', () => {
+    // 01:30 on Nov 2 2025 happens twice in New York, first in EDT and then in EST
+    const anchor = Date.UTC(2025, 9, 26, 5, 30); // Oct 26 01:30 EDT
+    expect(getRenewalDate(anchor, 'week', 1, 'America/New_York')).toBe(Date.UTC(2025, 10, 2, 5, 30));
+  });
+
+  it('keep a month-end anchor on the last day of the month', () => {
+    // Oct 31 in London is after the clocks go back, Mar 31 after they go forward
+    const anchor = Date.UTC(2024, 9, 31, 12); // Oct 31 12:00 GMT
+    const renewals = [1, 4, 5, 6].map((cycles) => localParts(getRenewalDate(anchor, 'month', cycles, 'Europe/London'), 'Europe/London'));
+    expect(renewals.map(({ month, day, hour }) => [month, day, hour])).toEqual([
+      [10, 30, 12],
+      [1, 28, 12],
+      [2, 31, 12],
+      [3, 30, 12],
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import type { BillingInterval, Subscription } from './types';
+import { BILLING_TIME_ZONE } from './config';
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const INTERVAL_MONTHS: Record<Exclude<BillingInterval, 'week'>, number> = {
+  month: 1,
+  quarter: 3,
+  year: 12,
+};
+
+// Rough interval lengths, only used to guess a cycle count before stepping to the exact one
+const AVERAGE_INTERVAL_MS: Record<BillingInterval, number> = {
+  week: 7 * DAY_MS,
+  month: 30.44 * DAY_MS,
+  quarter: 91.31 * DAY_MS,
+  year: 365.25 * DAY_MS,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function toLocal(timestamp: number, timeZone: string): LocalDateTime {
+  const millisecond = ((timestamp % 1000) + 1000) % 1000;
+
+  if (timeZone === 'UTC') {
+    const date = new Date(timestamp);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth(),
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond,
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond,
+  };
+}
+
+function wallClockToUtc(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month, local.day, local.hour, local.minute, local.second, local.millisecond);
+}
+
+function timeZoneOffset(timestamp: number, timeZone: string): number {
+  return wallClockToUtc(toLocal(timestamp, timeZone)) - timestamp;
+}
+
+function sameWallClock(a: LocalDateTime, b: LocalDateTime): boolean {
+  return (
+    a.year === b.year &&
+    a.month === b.month &&
+    a.day === b.day &&
+    a.hour === b.hour &&
+    a.minute === b.minute &&
+    a.second === b.second
+  );
+}
+
+// Converts a wall-clock time in the zone to a timestamp. When DST makes the time
+// ambiguous the earlier instant wins; when it doesn't exist (spring-forward gap)
+// it is pushed forward by the size of the gap.
+function fromLocal(local: LocalDateTime, timeZone: string): number {
+  const wallClock = wallClockToUtc(local);
+  if (timeZone === 'UTC') return wallClock;
+
+  const candidates = [
+    wallClock - timeZoneOffset(wallClock - 12 * HOUR_MS, timeZone),
+    wallClock - timeZoneOffset(wallClock + 12 * HOUR_MS, timeZone),
+  ].sort((a, b) => a - b);
+
+  const exact = candidates.find((candidate) => sameWallClock(toLocal(candidate, timeZone), local));
+  return exact ?? candidates[candidates.length - 1];
+}
+
+export function daysInMonth(year: number, month: number): number {
+  if (month === 1) return isLeapYear(year) ? 29 : 28;
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// Date of the `cycles`-th renewal after the anchor. Renewals are always computed
+// from the anchor, never from the previous renewal, so a Jan 31 anchor renews on
+// Feb 28/29 and then returns to Mar 31 instead of drifting.
+export function getRenewalDate(
+  anchor: number,
+  interval: BillingInterval,
+  cycles: number,
+  timeZone: string = BILLING_TIME_ZONE
+): number {
+  const local = toLocal(anchor, timeZone);
+
+  if (interval === 'week') {
+    const shifted = new Date(wallClockToUtc({ ...local, day: local.day + 7 * cycles }));
+    return fromLocal(
+      { ...local, year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() },
+      timeZone
+    );
+  }
+
+  const totalMonths = local.month + INTERVAL_MONTHS[interval] * cycles;
+  const year = local.year + Math.floor(totalMonths / 12);
+  const month = ((totalMonths % 12) + 12) % 12;
+  const day = Math.min(local.day, daysInMonth(year, month));
+
+  return fromLocal({ ...local, year, month, day }, timeZone);
+}
+
+// Smallest cycle count (at least 1) whose renewal falls strictly after `time`
+function firstCycleAfter(anchor: number, interval: BillingInterval, time: number, timeZone: string): number {
+  let cycles = Math.max(1, Math.floor((time - anchor) / AVERAGE_INTERVAL_MS[interval]));
+  while (cycles > 1 && getRenewalDate(anchor, interval, cycles - 1, timeZone) > time) {
+    cycles--;
+  }
+  while (getRenewalDate(anchor, interval, cycles, timeZone) <= time) {
+    cycles++;
+  }
+  return cycles;
+}
+
+export function getNextRenewalAfter(
+  anchor: number,
+  interval: BillingInterval,
+  after: number,
+  timeZone: string = BILLING_TIME_ZONE
+): number {
+  return getRenewalDate(anchor, interval, firstCycleAfter(anchor, interval, after, timeZone), timeZone);
+}
+
+// Start of the billing period that ends at `periodEnd`, i.e. the last renewal before it
+export function getPeriodStart(
+  anchor: number,
+  interval: BillingInterval,
+  periodEnd: number,
+  timeZone: string = BILLING_TIME_ZONE
+): number {
+  const endCycle = firstCycleAfter(anchor, interval, periodEnd - 1, timeZone);
+  return getRenewalDate(anchor, interval, endCycle - 1, timeZone);
+}
+
+export function getBillingAnchor(subscription: Subscription): number {
+  return subscription.billingAnchor ?? subscription.createdAt;
+}
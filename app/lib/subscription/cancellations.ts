@@ -0,0 +1,164 @@
+import type { CancellationRefund, Subscription } from './types';
+import { getSubscription, getSubscriptions, updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { getBillingAnchor, getPeriodStart } from './calendar';
+import { getUnusedPaidValue, roundSol } from './utils';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+// The unused share of the current period, valued at what was paid for it (upgrade charges
+// included, discounts and credit already given back excluded), plus unused credit.
+// Trials and pauses have no paid time running, so only their credit is refunded.
+// Undefined when there is nothing to refund.
+export function calculateCancellationRefund(
+  subscription: Subscription,
+  now: number = Date.now()
+): CancellationRefund | undefined {
+  const periodEnd = subscription.nextBillingDate;
+  const periodStart = getPeriodStart(getBillingAnchor(subscription), subscription.interval, periodEnd);
+  const periodLength = periodEnd - periodStart;
+  const remainingFraction =
+    periodLength > 0 ? Math.min(Math.max((periodEnd - now) / periodLength, 0), 1) : 0;
+
+  const hasPaidTime = subscription.status === 'active' || subscription.status === 'past_due';
+  const unusedPaid = hasPaidTime ? getUnusedPaidValue(subscription, periodStart, now) : 0;
+  const creditRefunded = subscription.creditBalance ?? 0;
+  const amount = roundSol(unusedPaid + creditRefunded);
+  if (amount <= 0) return undefined;
+
+  return {
+    amount,
+    remainingFraction,
+    ...(creditRefunded > 0 && { creditRefunded }),
+    periodEnd,
+    issuedAt: now,
+  };
+}
+
+// Keeps the subscription active for the time already paid, then ends it instead of renewing.
+// A scheduled plan change would never take effect, so it is dropped.
+export async function scheduleCancellation(walletAddress: string, subscription: Subscription): Promise<void> {
+  await withSubscriptionLock(walletAddress, subscription.id, async () => {
+    const current = await getSubscription(walletAddress, subscription.id);
+    if (current?.status !== 'active') throw new Error('Only active subscriptions can be cancelled at period end');
+
+    await updateSubscription(walletAddress, subscription.id, {
+      cancelAtPeriodEnd: true,
+      pendingChange: undefined,
+    });
+  });
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'cancellation_scheduled',
+  });
+}
+
+// Ends the subscription straight away and records the refund owed, if any
+export async function cancelImmediately(
+  walletAddress: string,
+  subscription: Subscription,
+  now: number = Date.now()
+): Promise<CancellationRefund | undefined> {
+  const refund = await withSubscriptionLock(walletAddress, subscription.id, async () => {
+    const current = await getSubscription(walletAddress, subscription.id);
+    if (!current) throw new Error('Subscription not found');
+    if (current.status === 'cancelled' || current.status === 'expired') {
+      throw new Error('This subscription has already ended');
+    }
+
+    const owed = calculateCancellationRefund(current, now);
+    await updateSubscription(walletAddress, subscription.id, {
+      status: 'cancelled',
+      cancellationDate: now,
+      cancelledFrom: current.status,
+      cancelAtPeriodEnd: undefined,
+      pendingChange: undefined,
+      nextRetryAt: undefined,
+      ...(owed && { refund: owed, creditBalance: undefined }),
+    });
+    return owed;
+  });
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'cancelled',
+  });
+  return refund;
+}
+
+// A cancellation can be undone until the current period or trial would have ended, as long
+// as nothing was refunded. Cancellations recorded without their previous status can't be.
+export function canReactivate(subscription: Subscription, now: number = Date.now()): boolean {
+  if (subscription.status === 'active') return subscription.cancelAtPeriodEnd === true;
+  return (
+    subscription.status === 'cancelled' &&
+    subscription.cancelledFrom !== undefined &&
+    !subscription.refund &&
+    now < subscription.nextBillingDate
+  );
+}
+
+// Puts the subscription back as it was before cancelling: a trial carries on as a trial and
+// a pause as a pause. Billing continues on the existing calendar, so nothing is charged
+// until nextBillingDate.
+export async function reactivateSubscription(
+  walletAddress: string,
+  subscription: Subscription,
+  now: number = Date.now()
+): Promise<void> {
+  await withSubscriptionLock(walletAddress, subscription.id, async () => {
+    const current = await getSubscription(walletAddress, subscription.id);
+    if (!current || !canReactivate(current, now)) {
+      throw new Error('This subscription can no longer be reactivated');
+    }
+
+    await updateSubscription(walletAddress, subscription.id, {
+      status: current.status === 'cancelled' ? current.cancelledFrom : current.status,
+      cancelAtPeriodEnd: undefined,
+      cancellationDate: undefined,
+      cancelledFrom: undefined,
+    });
+  });
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'reactivated',
+  });
+}
+
+export function isCancellationDue(subscription: Subscription, now: number = Date.now()): boolean {
+  return (
+    subscription.status === 'active' &&
+    subscription.cancelAtPeriodEnd === true &&
+    now >= subscription.nextBillingDate
+  );
+}
+
+// Ends subscriptions cancelled at period end once that period is over. They expire like a
+// lapsed subscription, with the period end as their cancellation date, and churn then
+// rather than on the day the billing run noticed.
+export async function endCancelledSubscriptions(
+  walletAddress: string,
+  now: number = Date.now()
+): Promise<Subscription[]> {
+  const due = (await getSubscriptions(walletAddress)).filter((sub) => isCancellationDue(sub, now));
+  const ended: Subscription[] = [];
+
+  for (const subscription of due) {
+    await withSubscriptionLock(walletAddress, subscription.id, async () => {
+      // It may have been reactivated in another tab meanwhile
+      const current = await getSubscription(walletAddress, subscription.id);
+      if (!current || !isCancellationDue(current, now)) return;
+
+      await updateSubscription(walletAddress, subscription.id, {
+        status: 'expired',
+        cancellationDate: current.nextBillingDate,
+        cancelAtPeriodEnd: undefined,
+      });
+      ended.push(current);
+      dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+        subscriptionId: subscription.id,
+        action: 'expired',
+      });
+    });
+  }
+
+  return ended;
+}
@@ -0,0 +1,299 @@
+import type { BillingInterval, FiatCurrency, PaymentCurrency, Subscription, SubscriptionPlanId } from './types';
+import { USDC_CURRENCY } from './config';
+
+export interface PlanLimits {
+  // null means unlimited
+  transactionsPerMonth: number | null;
+}
+
+// Usage-priced plans bill each transaction beyond those included in a billing period at
+// unitPrice (in the plan's price unit), added to the next renewal. The allowance is
+// scaled to the billing interval, so an annual subscription includes twelve months' worth.
+export interface UsagePricing {
+  includedTransactionsPerMonth: number;
+  unitPrice: number;
+}
+
+// One published revision of a plan. Prices are never edited in place: a price
+// change is a new version, and subscribers keep the version they signed up on.
+export interface PlanVersion {
+  version: number;
+  publishedAt: number;
+  // Paid in this currency; SOL when omitted
+  currency?: PaymentCurrency;
+  // Prices are quoted in this fiat currency and converted at charge time; otherwise they're in `currency`
+  priceCurrency?: FiatCurrency;
+  prices: Record<BillingInterval, number>;
+  limits: PlanLimits;
+  usagePricing?: UsagePricing;
+  features: string[];
+  trialDays?: number;
+  // Longest a subscriber may pause for; PAUSE_CONFIG.defaultMaxDays when omitted
+  maxPauseDays?: number;
+}
+
+export interface CatalogPlan {
+  id: SubscriptionPlanId;
+  name: string;
+  popular?: boolean;
+  // Archived plans stay resolvable for existing subscribers but can't be bought
+  archived?: boolean;
+  versions: PlanVersion[];
+}
+
+// A catalog plan resolved to a single version
+export interface SubscriptionPlan extends Omit<PlanVersion, 'publishedAt'> {
+  id: SubscriptionPlanId;
+  name: string;
+  popular?: boolean;
+  archived?: boolean;
+}
+
+export const BILLING_INTERVALS: BillingInterval[] = ['week', 'month', 'quarter', 'year'];
+
+export const INTERVAL_LABELS: Record<BillingInterval, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Annual',
+};
+
+// Months covered by one charge, used to compare each interval against monthly pricing
+const INTERVAL_MONTHS: Record<BillingInterval, number> = {
+  week: 12 / 52,
+  month: 1,
+  quarter: 3,
+  year: 12,
+};
+
+// Subscriptions created before plans were versioned were all on version 1
+const LEGACY_PLAN_VERSION = 1;
+
+export const PLAN_CATALOG: CatalogPlan[] = [
+  {
+    id: 'starter',
+    name: 'Starter',
+    versions: [
+      {
+        version: 1,
+        publishedAt: Date.UTC(2025, 8, 1),
+        // Priced in dollars and paid in SOL at the rate on the day of each charge
+        priceCurrency: 'USD',
+        prices: {
+          week: 1.25,
+          month: 5,
+          quarter: 14,
+          year: 50,
+        },
+        limits: {
+          transactionsPerMonth: 5,
+        },
+        maxPauseDays: 30,
+        features: [
+          'Passkey authentication',
+          'Basic smart wallet',
+          '5 transactions/month',
+          'Stable USD pricing',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'basic',
+    name: 'Basic',
+    versions: [
+      {
+        version: 1,
+        publishedAt: Date.UTC(2025, 0, 1),
+        // Annual is priced at 10 months ("2 months free")
+        prices: {
+          week: 0.025,
+          month: 0.1,
+          quarter: 0.28,
+          year: 1.0,
+        },
+        limits: {
+          transactionsPerMonth: 10,
+        },
+        features: [
+          'Passkey authentication',
+          'Basic smart wallet',
+          '10 transactions/month',
+          'Community support',
+        ],
+        trialDays: 14,
+      },
+    ],
+  },
+  {
+    id: 'pro',
+    name: 'Pro',
+    popular: true,
+    versions: [
+      {
+        version: 1,
+        publishedAt: Date.UTC(2025, 0, 1),
+        prices: {
+          week: 0.125,
+          month: 0.5,
+          quarter: 1.4,
+          year: 5.0,
+        },
+        limits: {
+          transactionsPerMonth: null,
+        },
+        features: [
+          'Everything in Basic',
+          'Unlimited transactions',
+          'Priority support',
+          'Advanced analytics',
+          'API access',
+        ],
+        trialDays: 14,
+      },
+    ],
+  },
+  {
+    id: 'enterprise',
+    name: 'Enterprise',
+    versions: [
+      {
+        version: 1,
+        publishedAt: Date.UTC(2025, 0, 1),
+        prices: {
+          week: 0.5,
+          month: 2.0,
+          quarter: 5.6,
+          year: 20.0,
+        },
+        limits: {
+          transactionsPerMonth: null,
+        },
+        maxPauseDays: 180,
+        features: [
+          'Everything in Pro',
+          'Custom integration',
+          'Dedicated support',
+          'SLA guarantee',
+          'White-label option',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'metered',
+    name: 'Pay as you go',
+    versions: [
+      {
+        version: 1,
+        publishedAt: Date.UTC(2025, 9, 1),
+        prices: {
+          week: 0.0125,
+          month: 0.05,
+          quarter: 0.14,
+          year: 0.5,
+        },
+        // Never blocked: transactions beyond the allowance are billed instead
+        limits: {
+          transactionsPerMonth: null,
+        },
+        usagePricing: {
+          includedTransactionsPerMonth: 20,
+          unitPrice: 0.002,
+        },
+        features: [
+          'Passkey authentication',
+          '20 transactions/month included',
+          '0.002 SOL per extra transaction',
+          'Billed with each renewal',
+        ],
+      },
+    ],
+  },
+  {
+    id: 'team',
+    name: 'Team',
+    versions: [
+      {
+        version: 1,
+        publishedAt: Date.UTC(2025, 6, 1),
+        currency: USDC_CURRENCY,
+        prices: {
+          week: 5,
+          month: 20,
+          quarter: 56,
+          year: 200,
+        },
+        limits: {
+          transactionsPerMonth: null,
+        },
+        features: [
+          'Everything in Pro',
+          'Billed in USDC',
+          'Up to 10 team members',
+          'Shared billing history',
+        ],
+      },
+    ],
+  },
+];
+
+function resolvePlan(plan: CatalogPlan, planVersion: PlanVersion): SubscriptionPlan {
+  return {
+    version: planVersion.version,
+    currency: planVersion.currency,
+    priceCurrency: planVersion.priceCurrency,
+    prices: planVersion.prices,
+    limits: planVersion.limits,
+    usagePricing: planVersion.usagePricing,
+    features: planVersion.features,
+    trialDays: planVersion.trialDays,
+    maxPauseDays: planVersion.maxPauseDays,
+    id: plan.id,
+    name: plan.name,
+    popular: plan.popular,
+    archived: plan.archived,
+  };
+}
+
+function getLatestVersion(plan: CatalogPlan): PlanVersion {
+  return plan.versions.reduce((latest, v) => (v.version > latest.version ? v : latest));
+}
+
+// Plans that can be bought today, each at its latest version
+export function getCurrentPlans(): SubscriptionPlan[] {
+  return PLAN_CATALOG.filter((plan) => !plan.archived).map((plan) => resolvePlan(plan, getLatestVersion(plan)));
+}
+
+// Resolves a plan at a specific version, or at its latest version when none is given
+export function getPlan(planId: string, version?: number): SubscriptionPlan | undefined {
+  const plan = PLAN_CATALOG.find((p) => p.id === planId);
+  if (!plan) return undefined;
+
+  const planVersion =
+    version === undefined ? getLatestVersion(plan) : plan.versions.find((v) => v.version === version);
+  return planVersion ? resolvePlan(plan, planVersion) : undefined;
+}
+
+export function getSubscriptionPlan(subscription: Subscription): SubscriptionPlan | undefined {
+  return getPlan(subscription.planId, subscription.planVersion ?? LEGACY_PLAN_VERSION);
+}
+
+export function getPlanName(planId: string): string {
+  return PLAN_CATALOG.find((plan) => plan.id === planId)?.name || planId;
+}
+
+export function getPlanPrice(plan: SubscriptionPlan, interval: BillingInterval): number {
+  return plan.prices[interval];
+}
+
+export function getIncludedTransactions(plan: SubscriptionPlan, interval: BillingInterval): number {
+  return Math.round((plan.usagePricing?.includedTransactionsPerMonth ?? 0) * INTERVAL_MONTHS[interval]);
+}
+
+// Percentage saved compared with paying the monthly price for the same span of time
+export function getIntervalSavings(plan: SubscriptionPlan, interval: BillingInterval): number {
+  const monthlyEquivalent = plan.prices.month * INTERVAL_MONTHS[interval];
+  if (monthlyEquivalent <= 0) return 0;
+  return Math.max(0, Math.round((1 - plan.prices[interval] / monthlyEquivalent) * 100));
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import { CHECKOUT_CONFIRMATION_WINDOW_MS } from './config';
+import { getPendingCheckout, resumePendingCheckout, runCheckout, type CheckoutConnection } from './checkout';
+import { memoryStore, resetSubscriptions } from './storage.fixtures';
+import { WALLET, paidSubscription } from './billing.fixtures';
+
+// The journal lives in localStorage and wallet events go to window, neither of which exists under Node
+function stubBrowser() {
+  const items = new Map<string, string>();
+  vi.stubGlobal('window', new EventTarget());
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+}
+
+// A chain that has seen only the given transactions from the wallet
+function stubConnection(transactions: Partial<ConfirmedSignatureInfo>[] = []) {
+  return {
+    getSignatureStatuses: vi.fn(async () => ({ context: { slot: 1 }, value: [null] })),
+    getSignaturesForAddress: vi.fn(async () => transactions as ConfirmedSignatureInfo[]),
+  } satisfies CheckoutConnection;
+}
+
+// Starts a checkout whose tab "closes" once the payment is sent: the memo is captured, but
+// neither the signature nor the subscription is recorded
+async function abandonCheckout(): Promise<string> {
+  let memo = '';
+  const pay = async (checkoutMemo: string) => {
+    memo = checkoutMemo;
+    throw new Error('Network request failed');
+  };
+  await expect(runCheckout(WALLET, paidSubscription(), pay, memoryStore)).rejects.toThrow();
+  return memo;
+}
+
+beforeEach(() => {
+  resetSubscriptions();
+  stubBrowser();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('resumePendingCheckout', () => {
+  it('stores the subscription once when the payment landed but was never recorded', async () => {
+    const memo = await abandonCheckout();
+    const connection = stubConnection([{ signature: 'sig_landed', memo: `[12] ${memo}`, err: null }]);
+    const add = vi.spyOn(memoryStore, 'add');
+
+    expect(await resumePendingCheckout(WALLET, connection, memoryStore)).toBe('completed');
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(getPendingCheckout(WALLET)).toBeNull();
+
+    const [stored] = await memoryStore.list(WALLET);
+    expect(stored.paymentHistory[0]).toMatchObject({ kind: 'initial', txSignature: 'sig_landed' });
+  });
+
+  it('clears the journal without storing anything when the payment never landed', async () => {
+    await abandonCheckout();
+    const connection = stubConnection([{ signature: 'sig_other', memo: '[9] lazorkit-checkout:chk_other', err: null }]);
+    const { startedAt } = getPendingCheckout(WALLET)!;
+
+    // Still inside the window the payment could land in, so it is left alone
+    expect(await resumePendingCheckout(WALLET, connection, memoryStore, startedAt + 1000)).toBe('pending');
+    expect(getPendingCheckout(WALLET)).not.toBeNull();
+
+    const lapsed = startedAt + CHECKOUT_CONFIRMATION_WINDOW_MS;
+    expect(await resumePendingCheckout(WALLET, connection, memoryStore, lapsed)).toBe('rolled_back');
+    expect(getPendingCheckout(WALLET)).toBeNull();
+    expect(await memoryStore.list(WALLET)).toEqual([]);
+  });
+
+  it('settles a checkout only once when recovery runs twice', async () => {
+    const memo = await abandonCheckout();
+    const connection = stubConnection([{ signature: 'sig_landed', memo, err: null }]);
+
+    const outcomes = await Promise.all([
+      resumePendingCheckout(WALLET, connection, memoryStore),
+      resumePendingCheckout(WALLET, connection, memoryStore),
+    ]);
+    expect(outcomes).toEqual(['completed', null]);
+    expect(await memoryStore.list(WALLET)).toHaveLength(1);
+  });
+
+  it('does not store the subscription again when an earlier recovery stored it but kept the journal', async () => {
+    const memo = await abandonCheckout();
+    await memoryStore.add(WALLET, paidSubscription());
+    const add = vi.spyOn(memoryStore, 'add');
+
+    const connection = stubConnection([{ signature: 'sig_landed', memo, err: null }]);
+    expect(await resumePendingCheckout(WALLET, connection, memoryStore)).toBe('completed');
+    expect(add).not.toHaveBeenCalled();
+    expect(await memoryStore.list(WALLET)).toHaveLength(1);
+  });
+});
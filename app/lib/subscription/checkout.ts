@@ -0,0 +1,206 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+import type { Subscription } from './types';
+import type { SubscriptionStore } from './store';
+import { classifyPaymentError } from './dunning';
+import { claimRedemption, releaseRedemption } from './redemptions';
+import { withLock } from './locks';
+import { CHECKOUT_CONFIRMATION_WINDOW_MS } from './config';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+// A paid checkout is journalled before the passkey prompt, so a tab closed between the
+// payment confirming and the subscription being stored can finish the job on next load.
+// The journal key doubles as an idempotency key: it is written into the payment's memo,
+// which is how the payment is found again when its signature was never recorded.
+export interface PendingCheckout {
+  key: string;
+  walletAddress: string;
+  // Stored as-is once the payment is found; the initial payment's signature is filled in then
+  subscription: Subscription;
+  couponCode?: string;
+  txSignature?: string;
+  startedAt: number;
+}
+
+export type CheckoutConnection = Pick<Connection, 'getSignaturesForAddress' | 'getSignatureStatuses'>;
+
+export type CheckoutOutcome = 'completed' | 'rolled_back' | 'pending';
+
+const PENDING_PREFIX = 'pending_checkout_';
+const MEMO_PREFIX = 'lazorkit-checkout:';
+const SIGNATURE_SEARCH_LIMIT = 50;
+
+export function buildCheckoutMemo(key: string): string {
+  return `${MEMO_PREFIX}${key}`;
+}
+
+function generateCheckoutKey(): string {
+  return `chk_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+export function getPendingCheckout(walletAddress: string): PendingCheckout | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(`${PENDING_PREFIX}${walletAddress}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading pending checkout:', error);
+    return null;
+  }
+}
+
+// Throws when the journal can't be written, so nothing is paid without it
+function savePendingCheckout(checkout: PendingCheckout): void {
+  localStorage.setItem(`${PENDING_PREFIX}${checkout.walletAddress}`, JSON.stringify(checkout));
+}
+
+function clearPendingCheckout(walletAddress: string): void {
+  try {
+    localStorage.removeItem(`${PENDING_PREFIX}${walletAddress}`);
+  } catch (error) {
+    console.error('Error clearing pending checkout:', error);
+  }
+}
+
+// The payment never happened, so the coupon's redemption goes back
+async function dropPendingCheckout(checkout: PendingCheckout): Promise<void> {
+  clearPendingCheckout(checkout.walletAddress);
+  if (checkout.couponCode) {
+    await releaseRedemption(checkout.walletAddress, checkout.couponCode, checkout.subscription.id);
+  }
+}
+
+function withCheckoutLock<T>(walletAddress: string, fn: () => Promise<T>): Promise<T> {
+  return withLock(`lazorkit-checkout:${walletAddress}`, fn);
+}
+
+async function completeCheckout(
+  checkout: PendingCheckout,
+  txSignature: string,
+  store: SubscriptionStore
+): Promise<Subscription> {
+  const subscription: Subscription = {
+    ...checkout.subscription,
+    paymentHistory: checkout.subscription.paymentHistory.map((payment) =>
+      payment.kind === 'initial' ? { ...payment, txSignature } : payment
+    ),
+  };
+
+  // A previous attempt may have stored it and closed before clearing the journal
+  if (!(await store.get(checkout.walletAddress, subscription.id))) {
+    await store.add(checkout.walletAddress, subscription);
+  }
+  // The journal is the only record of the payment until the subscription is readable back,
+  // so it stays for resumePendingCheckout if the write didn't stick
+  if (!(await store.get(checkout.walletAddress, subscription.id))) {
+    throw new Error('Payment sent, but the subscription could not be saved. It will be restored on next load.');
+  }
+  clearPendingCheckout(checkout.walletAddress);
+
+  dispatchWalletEvent(WALLET_EVENTS.TRANSACTION_COMPLETED, {
+    signature: txSignature,
+    type: 'subscription',
+  });
+  dispatchWalletEvent(WALLET_EVENTS.BALANCE_UPDATED);
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_CREATED, {
+    subscriptionId: subscription.id,
+    planId: subscription.planId,
+  });
+  return subscription;
+}
+
+// Claims the coupon's redemption, journals the checkout, pays with the memo attached, then
+// stores the subscription. Declined or unaffordable payments never left the wallet, so their
+// journal is dropped; any other failure leaves it for resumePendingCheckout to settle from the chain.
+export async function runCheckout(
+  walletAddress: string,
+  subscription: Subscription,
+  pay: (memo: string) => Promise<string>,
+  store: SubscriptionStore,
+  couponCode?: string
+): Promise<{ subscription: Subscription; txSignature: string }> {
+  return withCheckoutLock(walletAddress, async () => {
+    if (getPendingCheckout(walletAddress)) {
+      throw new Error('A previous checkout is still being confirmed. Try again in a few minutes.');
+    }
+
+    const checkout: PendingCheckout = {
+      key: generateCheckoutKey(),
+      walletAddress,
+      subscription,
+      couponCode,
+      startedAt: Date.now(),
+    };
+    if (couponCode) {
+      await claimRedemption(walletAddress, couponCode, subscription.id);
+    }
+    try {
+      savePendingCheckout(checkout);
+    } catch (error) {
+      await dropPendingCheckout(checkout);
+      throw error;
+    }
+
+    let txSignature: string;
+    try {
+      txSignature = await pay(buildCheckoutMemo(checkout.key));
+    } catch (error) {
+      const reason = classifyPaymentError(error);
+      if (reason === 'user_rejected' || reason === 'insufficient_funds') {
+        await dropPendingCheckout(checkout);
+      }
+      throw error;
+    }
+
+    savePendingCheckout({ ...checkout, txSignature });
+    return { subscription: await completeCheckout(checkout, txSignature, store), txSignature };
+  });
+}
+
+async function findCheckoutSignature(
+  checkout: PendingCheckout,
+  connection: CheckoutConnection
+): Promise<{ signature: string; failed: boolean } | null> {
+  if (checkout.txSignature) {
+    const { value } = await connection.getSignatureStatuses([checkout.txSignature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+    if (status && status.confirmationStatus !== 'processed') {
+      return { signature: checkout.txSignature, failed: status.err !== null };
+    }
+  }
+
+  // The signature may never have reached the journal, so look for the memo instead
+  const memo = buildCheckoutMemo(checkout.key);
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(checkout.walletAddress), {
+    limit: SIGNATURE_SEARCH_LIMIT,
+  });
+  const match = signatures.find((info) => info.memo?.includes(memo));
+  return match ? { signature: match.signature, failed: match.err !== null } : null;
+}
+
+// Settles a checkout left behind by a closed tab or failed write: stores the subscription
+// if its payment landed, and drops the journal if the payment failed or can no longer land
+export async function resumePendingCheckout(
+  walletAddress: string,
+  connection: CheckoutConnection,
+  store: SubscriptionStore,
+  now: number = Date.now()
+): Promise<CheckoutOutcome | null> {
+  return withCheckoutLock(walletAddress, async () => {
+    const checkout = getPendingCheckout(walletAddress);
+    if (!checkout) return null;
+
+    const found = await findCheckoutSignature(checkout, connection);
+    if (found && !found.failed) {
+      await completeCheckout(checkout, found.signature, store);
+      return 'completed';
+    }
+    if (found?.failed || now - checkout.startedAt >= CHECKOUT_CONFIRMATION_WINDOW_MS) {
+      await dropPendingCheckout(checkout);
+      return 'rolled_back';
+    }
+    return 'pending';
+  });
+}
@@ -0,0 +1,74 @@
+import { PublicKey } from '@solana/web3.js';
+import type { PaymentCurrency } from './types';
+
+// Merchant wallet address - receives subscription payments
+export const MERCHANT_WALLET = new PublicKey('9T2zGaNBr7bKBBEvQ9AAGNwCG3iL4jVF2Z8TipqikpKG');
+export const RPC_URL = 'https://api.devnet.solana.com';
+
+// How often the billing runner checks for due subscriptions while the app is open
+export const BILLING_CHECK_INTERVAL_MS = 60 * 1000;
+
+// A checkout payment that still isn't on-chain this long after signing can no longer land
+// (its blockhash has expired), so the pending checkout is rolled back
+export const CHECKOUT_CONFIRMATION_WINDOW_MS = 3 * 60 * 1000;
+
+// Dunning: delays between retries of a failed renewal, and how long a subscription
+// may stay past due before it expires. Both are measured from the first failure.
+export interface DunningConfig {
+  retrySchedule: number[];
+  gracePeriod: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DUNNING_CONFIG: DunningConfig = {
+  retrySchedule: [1 * DAY_MS, 3 * DAY_MS, 5 * DAY_MS],
+  gracePeriod: 7 * DAY_MS,
+};
+
+// Pausing: the shortest pause, the longest for plans that don't set their own, and the
+// lengths offered as shortcuts (those over the plan's limit are left out)
+export interface PauseConfig {
+  minDays: number;
+  defaultMaxDays: number;
+  presetDays: number[];
+}
+
+export const PAUSE_CONFIG: PauseConfig = {
+  minDays: 1,
+  defaultMaxDays: 90,
+  presetDays: [7, 14, 30, 60, 90, 180],
+};
+
+// Webhooks: a failed delivery is retried after initialDelay, doubling each time, until maxAttempts
+export interface WebhookRetryConfig {
+  maxAttempts: number;
+  initialDelay: number;
+  timeout: number;
+}
+
+export const WEBHOOK_RETRY_CONFIG: WebhookRetryConfig = {
+  maxAttempts: 6,
+  initialDelay: 30 * 1000,
+  timeout: 10 * 1000,
+};
+
+// IANA time zone renewals are computed in; the anchor's wall-clock day and time are kept in this zone
+export const BILLING_TIME_ZONE = 'UTC';
+
+export const SOL_CURRENCY: PaymentCurrency = {
+  symbol: 'SOL',
+  decimals: 9,
+};
+
+// Devnet USDC by default; point NEXT_PUBLIC_USDC_MINT at a mint created on a local validator to test against it
+export const USDC_CURRENCY: PaymentCurrency = {
+  symbol: 'USDC',
+  decimals: 6,
+  mint: process.env.NEXT_PUBLIC_USDC_MINT || '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+};
+
+// Where subscriptions are kept: 'local' (localStorage), 'indexeddb', or 'http' for the subscription API
+export const SUBSCRIPTION_STORE = process.env.NEXT_PUBLIC_SUBSCRIPTION_STORE || 'local';
+export const SUBSCRIPTION_API_URL = process.env.NEXT_PUBLIC_SUBSCRIPTION_API_URL || '/api/subscriptions';
+export const MERCHANT_API_URL = process.env.NEXT_PUBLIC_MERCHANT_API_URL || '/api/merchant';
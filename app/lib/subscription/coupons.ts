@@ -0,0 +1,102 @@
+import type { AppliedDiscount, DiscountDuration, DiscountType } from './types';
+import { roundSol } from './utils';
+
+export interface Coupon {
+  code: string;
+  type: DiscountType;
+  // Percent off (0-100), or a fixed amount off each discounted charge in `currency`
+  value: number;
+  // Price unit of a fixed amount, e.g. 'SOL' or 'USD'; unused for percent coupons
+  currency?: string;
+  duration: DiscountDuration;
+  durationCycles?: number;
+  expiresAt?: number;
+  // Redemptions allowed across all wallets; claimed on the server at checkout (see redemptions.ts)
+  maxRedemptions?: number;
+}
+
+export const COUPONS: Coupon[] = [
+  {
+    code: 'WELCOME20',
+    type: 'percent',
+    value: 20,
+    duration: 'once',
+  },
+  {
+    code: 'LAUNCH50',
+    type: 'percent',
+    value: 50,
+    duration: 'repeating',
+    durationCycles: 3,
+    expiresAt: Date.UTC(2027, 0, 1),
+    maxRedemptions: 100,
+  },
+  {
+    code: 'LOYAL005',
+    type: 'fixed',
+    value: 0.05,
+    currency: 'SOL',
+    duration: 'forever',
+    maxRedemptions: 25,
+  },
+];
+
+export function findCoupon(code: string): Coupon | undefined {
+  const normalized = code.trim().toUpperCase();
+  return COUPONS.find((coupon) => coupon.code === normalized);
+}
+
+// The redemption cap isn't checked here; the server enforces it when the checkout claims one
+export function validateCoupon(code: string, now: number = Date.now()): { coupon?: Coupon; error?: string } {
+  const coupon = findCoupon(code);
+  if (!coupon) {
+    return { error: 'Unknown promo code' };
+  }
+  if (coupon.expiresAt !== undefined && now >= coupon.expiresAt) {
+    return { error: `Promo code ${coupon.code} has expired` };
+  }
+  return { coupon };
+}
+
+// A fixed amount is only meaningful in its own unit, so it only comes off plans priced in it
+export function appliesToPriceUnit(coupon: Coupon, unit: string): boolean {
+  return coupon.type !== 'fixed' || coupon.currency === unit;
+}
+
+export function toAppliedDiscount(coupon: Coupon, now: number = Date.now()): AppliedDiscount {
+  return {
+    couponCode: coupon.code,
+    type: coupon.type,
+    value: coupon.value,
+    duration: coupon.duration,
+    cyclesRemaining:
+      coupon.duration === 'once' ? 1 : coupon.duration === 'repeating' ? coupon.durationCycles ?? 1 : undefined,
+    redeemedAt: now,
+  };
+}
+
+export function isDiscountActive(discount: AppliedDiscount | undefined): discount is AppliedDiscount {
+  return discount !== undefined && (discount.cyclesRemaining === undefined || discount.cyclesRemaining > 0);
+}
+
+// Amount taken off a charge of `amount`; never more than the charge itself
+export function calculateDiscountAmount(amount: number, discount: AppliedDiscount | undefined): number {
+  if (!isDiscountActive(discount)) return 0;
+  const off = discount.type === 'percent' ? (amount * discount.value) / 100 : discount.value;
+  return roundSol(Math.min(Math.max(off, 0), amount));
+}
+
+// Discount left after one discounted charge, or undefined once it has run out
+export function consumeDiscountCycle(discount: AppliedDiscount | undefined): AppliedDiscount | undefined {
+  if (!isDiscountActive(discount)) return undefined;
+  if (discount.cyclesRemaining === undefined) return discount;
+  const cyclesRemaining = discount.cyclesRemaining - 1;
+  return cyclesRemaining > 0 ? { ...discount, cyclesRemaining } : undefined;
+}
+
+export function describeDiscount(discount: AppliedDiscount, currencySymbol: string = 'SOL'): string {
+  const off = discount.type === 'percent' ? `${discount.value}% off` : `${discount.value} ${currencySymbol} off`;
+  if (discount.duration === 'forever') return `${off} every payment`;
+  if (discount.duration === 'once') return `${off} the first payment`;
+  return `${off} for ${discount.cyclesRemaining} payment${discount.cyclesRemaining === 1 ? '' : 's'}`;
+}
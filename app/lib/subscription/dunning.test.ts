@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DunningConfig } from './config';
+import { clearDunning, isGracePeriodOver, isRetryDue, markPaymentFailed } from './dunning';
+import { expireLapsedSubscriptions, runBillingCycle } from './billing';
+import { addSubscription, getSubscription, resetSubscriptions } from './storage.fixtures';
+import { DAY_MS, FEB_1, WALLET, createTestDeps, paidSubscription } from './billing.fixtures';
+
+vi.mock('./storage', () => import('./storage.fixtures'));
+
+const config: DunningConfig = { retrySchedule: [1 * DAY_MS, 3 * DAY_MS, 5 * DAY_MS], gracePeriod: 7 * DAY_MS };
+
+// Applies a failed charge at `now` the way the billing runner does
+function fail(subscription: ReturnType<typeof paidSubscription>, now: number) {
+  return { ...subscription, ...markPaymentFailed(subscription, now, config) };
+}
+
+describe('markPaymentFailed', () => {
+  it('moves an active subscription to past_due and plans the first retry', () => {
+    expect(markPaymentFailed(paidSubscription(), FEB_1, config)).toEqual({
+      status: 'past_due',
+      pastDueSince: FEB_1,
+      retryCount: 0,
+      nextRetryAt: FEB_1 + 1 * DAY_MS,
+    });
+  });
+
+  it('follows the retry schedule from each failed retry, keeping the first failure time', () => {
+    const first = fail(paidSubscription(), FEB_1);
+    const second = fail(first, first.nextRetryAt!);
+    expect(second).toMatchObject({ pastDueSince: FEB_1, retryCount: 1, nextRetryAt: FEB_1 + 4 * DAY_MS });
+
+    // The third delay would end after the grace period, so the last retry is held to it
+    const third = fail(second, second.nextRetryAt!);
+    expect(third).toMatchObject({ retryCount: 2, nextRetryAt: FEB_1 + 7 * DAY_MS });
+  });
+
+  it('plans no further retry once the schedule is used up', () => {
+    let subscription = fail(paidSubscription(), FEB_1);
+    for (let retry = 0; retry < config.retrySchedule.length; retry++) {
+      subscription = fail(subscription, subscription.nextRetryAt!);
+    }
+    expect(subscription).toMatchObject({ status: 'past_due', retryCount: 3, nextRetryAt: undefined });
+  });
+});
+
+describe('isRetryDue and isGracePeriodOver', () => {
+  const pastDue = fail(paidSubscription(), FEB_1);
+
+  it('make a retry due at nextRetryAt', () => {
+    expect(isRetryDue(pastDue, FEB_1 + DAY_MS - 1)).toBe(false);
+    expect(isRetryDue(pastDue, FEB_1 + DAY_MS)).toBe(true);
+    expect(isRetryDue(paidSubscription(), FEB_1 + DAY_MS)).toBe(false);
+  });
+
+  it('end the grace period a fixed time after the first failure', () => {
+    expect(isGracePeriodOver(pastDue, FEB_1 + 7 * DAY_MS - 1, config)).toBe(false);
+    expect(isGracePeriodOver(pastDue, FEB_1 + 7 * DAY_MS, config)).toBe(true);
+    expect(isGracePeriodOver(paidSubscription(), FEB_1 + 30 * DAY_MS, config)).toBe(false);
+  });
+});
+
+describe('dunning in the billing runner', () => {
+  beforeEach(async () => {
+    resetSubscriptions();
+    await addSubscription(WALLET, fail(paidSubscription(), FEB_1));
+  });
+
+  it('clears dunning when a retry succeeds', async () => {
+    const deps = createTestDeps(FEB_1 + DAY_MS);
+    deps.dunning = config;
+
+    expect(await runBillingCycle(deps)).toMatchObject([{ status: 'charged' }]);
+    const stored = (await getSubscription(WALLET, 'sub_basic'))!;
+    expect(stored).toMatchObject(clearDunning());
+    expect(stored.nextBillingDate).toBe(Date.UTC(2026, 2, 1));
+  });
+
+  it('counts a failed retry and plans the next one', async () => {
+    const deps = createTestDeps(FEB_1 + DAY_MS);
+    deps.dunning = config;
+    deps.signAndSendTransaction.mockRejectedValueOnce(new Error('Transaction simulation failed: insufficient lamports'));
+
+    await runBillingCycle(deps);
+    expect(await getSubscription(WALLET, 'sub_basic')).toMatchObject({
+      status: 'past_due',
+      retryCount: 1,
+      nextRetryAt: FEB_1 + 4 * DAY_MS,
+      nextBillingDate: FEB_1,
+    });
+  });
+
+  it('expires the subscription once the grace period is over', async () => {
+    expect(await expireLapsedSubscriptions(WALLET, FEB_1 + 7 * DAY_MS - 1, config)).toEqual([]);
+    expect(await expireLapsedSubscriptions(WALLET, FEB_1 + 7 * DAY_MS, config)).toHaveLength(1);
+    expect(await getSubscription(WALLET, 'sub_basic')).toMatchObject({ status: 'expired', nextRetryAt: undefined });
+  });
+});
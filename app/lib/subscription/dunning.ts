@@ -0,0 +1,86 @@
+import type { Subscription, PaymentFailureReason } from './types';
+import { DUNNING_CONFIG, type DunningConfig } from './config';
+
+export const FAILURE_REASON_LABELS: Record<PaymentFailureReason, string> = {
+  user_rejected: 'Passkey approval was declined',
+  insufficient_funds: 'Insufficient funds',
+  rpc_error: 'Network or RPC error',
+};
+
+export function classifyPaymentError(err: unknown): PaymentFailureReason {
+  const errorObj = err as { message?: string; name?: string };
+  const message = errorObj?.message?.toLowerCase() || '';
+
+  if (
+    errorObj?.name === 'NotAllowedError' ||
+    message.includes('notallowederror') ||
+    message.includes('user cancelled') ||
+    message.includes('canceled') ||
+    message.includes('rejected')
+  ) {
+    return 'user_rejected';
+  }
+
+  if (
+    message.includes('insufficient funds') ||
+    message.includes('insufficientfunds') ||
+    message.includes('insufficient lamports') ||
+    message.includes('custom program error: 0x1') ||
+    message.includes('custom program error: 0x2')
+  ) {
+    return 'insufficient_funds';
+  }
+
+  return 'rpc_error';
+}
+
+export function isRetryDue(subscription: Subscription, now: number = Date.now()): boolean {
+  return (
+    subscription.status === 'past_due' &&
+    subscription.nextRetryAt !== undefined &&
+    now >= subscription.nextRetryAt
+  );
+}
+
+export function isGracePeriodOver(
+  subscription: Subscription,
+  now: number = Date.now(),
+  config: DunningConfig = DUNNING_CONFIG
+): boolean {
+  return (
+    subscription.status === 'past_due' &&
+    subscription.pastDueSince !== undefined &&
+    now >= subscription.pastDueSince + config.gracePeriod
+  );
+}
+
+// Moves a subscription into (or further along) dunning after a failed charge.
+// Once the retry schedule is exhausted no further retry is planned and the
+// subscription simply waits out the grace period.
+export function markPaymentFailed(
+  subscription: Subscription,
+  now: number,
+  config: DunningConfig = DUNNING_CONFIG
+): Partial<Subscription> {
+  const pastDueSince = subscription.pastDueSince ?? now;
+  const retryCount = subscription.status === 'past_due' ? (subscription.retryCount ?? 0) + 1 : 0;
+  const delay = config.retrySchedule[retryCount];
+  const graceEnds = pastDueSince + config.gracePeriod;
+  const nextRetryAt = delay !== undefined ? Math.min(now + delay, graceEnds) : undefined;
+
+  return {
+    status: 'past_due',
+    pastDueSince,
+    retryCount,
+    nextRetryAt,
+  };
+}
+
+export function clearDunning(): Partial<Subscription> {
+  return {
+    status: 'active',
+    pastDueSince: undefined,
+    retryCount: undefined,
+    nextRetryAt: undefined,
+  };
+}
@@ -0,0 +1,142 @@
+import type { Subscription, SubscriptionPlanId } from './types';
+import { getSubscriptionPlan, type PlanLimits, type SubscriptionPlan } from './catalog';
+import { getBillingAnchor, getNextRenewalAfter, getPeriodStart } from './calendar';
+
+// A transaction counted against the plan's monthly quota
+export interface UsageRecord {
+  signature: string;
+  type: string;
+  timestamp: number;
+}
+
+// What the wallet's plan allows this month, and how much of it is used. A wallet
+// without a subscription that grants access isn't metered.
+export interface Entitlements {
+  subscriptionId: string | null;
+  planId: SubscriptionPlanId | null;
+  limits: PlanLimits | null;
+  // Transactions beyond the plan's allowance are billed rather than blocked
+  usagePriced: boolean;
+  transactionsUsed: number;
+  // null when unlimited or unmetered
+  transactionsRemaining: number | null;
+  periodStart: number | null;
+  periodEnd: number | null;
+}
+
+export type QuotaStatus = 'unmetered' | 'unlimited' | 'available' | 'low' | 'exhausted';
+
+const USAGE_PREFIX = 'usage_';
+// Long enough to cover the current monthly window whatever the billing day
+const USAGE_RETENTION_MS = 93 * 24 * 60 * 60 * 1000;
+// Warn once this few transactions are left
+const LOW_QUOTA_THRESHOLD = 2;
+
+// Transfers the user makes are usage; payments for the subscription itself are not
+const METERED_TRANSACTION_TYPES = new Set(['transfer']);
+
+// Past due subscriptions keep their plan through the dunning grace period
+const ENTITLED_STATUSES: Subscription['status'][] = ['active', 'trialing', 'past_due'];
+
+export function isMeteredTransaction(type: string | undefined): boolean {
+  return type !== undefined && METERED_TRANSACTION_TYPES.has(type);
+}
+
+export function getUsage(walletAddress: string): UsageRecord[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(`${USAGE_PREFIX}${walletAddress}`);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading usage from storage:', error);
+    return [];
+  }
+}
+
+// Idempotent per signature, since every mounted listener records the same event
+export function recordUsage(walletAddress: string, record: UsageRecord, now: number = Date.now()): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const usage = getUsage(walletAddress).filter((entry) => entry.timestamp >= now - USAGE_RETENTION_MS);
+    if (usage.some((entry) => entry.signature === record.signature)) return;
+    localStorage.setItem(`${USAGE_PREFIX}${walletAddress}`, JSON.stringify([...usage, record]));
+  } catch (error) {
+    console.error('Error saving usage to storage:', error);
+  }
+}
+
+// Higher is more generous: flat unlimited beats usage-priced, which beats any fixed limit
+function getGenerosity(plan: SubscriptionPlan): number {
+  if (plan.limits.transactionsPerMonth !== null) return plan.limits.transactionsPerMonth;
+  return plan.usagePricing ? Number.MAX_SAFE_INTEGER - 1 : Number.MAX_SAFE_INTEGER;
+}
+
+// The subscription whose plan applies: with several, the most generous one
+export function getEntitledSubscription(subscriptions: Subscription[]): Subscription | undefined {
+  let best: { subscription: Subscription; generosity: number } | undefined;
+  for (const subscription of subscriptions) {
+    const plan = getSubscriptionPlan(subscription);
+    if (!plan || !ENTITLED_STATUSES.includes(subscription.status)) continue;
+    const generosity = getGenerosity(plan);
+    if (!best || generosity > best.generosity) {
+      best = { subscription, generosity };
+    }
+  }
+  return best?.subscription;
+}
+
+// Quotas reset monthly on the subscription's billing day, whatever its billing interval
+export function getUsageWindow(subscription: Subscription, now: number): { start: number; end: number } {
+  const anchor = getBillingAnchor(subscription);
+  const end = getNextRenewalAfter(anchor, 'month', now);
+  return { start: getPeriodStart(anchor, 'month', end), end };
+}
+
+export function getEntitlements(
+  subscriptions: Subscription[],
+  usage: UsageRecord[],
+  now: number = Date.now()
+): Entitlements {
+  const subscription = getEntitledSubscription(subscriptions);
+  const plan = subscription ? getSubscriptionPlan(subscription) : undefined;
+  if (!subscription || !plan) {
+    return {
+      subscriptionId: null,
+      planId: null,
+      limits: null,
+      usagePriced: false,
+      transactionsUsed: 0,
+      transactionsRemaining: null,
+      periodStart: null,
+      periodEnd: null,
+    };
+  }
+
+  const { start, end } = getUsageWindow(subscription, now);
+  const transactionsUsed = usage.filter(
+    (record) => isMeteredTransaction(record.type) && record.timestamp >= start && record.timestamp < end
+  ).length;
+  const { limits } = plan;
+  const limit = limits.transactionsPerMonth;
+
+  return {
+    subscriptionId: subscription.id,
+    planId: subscription.planId,
+    limits,
+    usagePriced: plan.usagePricing !== undefined,
+    transactionsUsed,
+    transactionsRemaining: limit === null ? null : Math.max(limit - transactionsUsed, 0),
+    periodStart: start,
+    periodEnd: end,
+  };
+}
+
+export function getQuotaStatus(entitlements: Entitlements): QuotaStatus {
+  if (!entitlements.limits) return 'unmetered';
+  const remaining = entitlements.transactionsRemaining;
+  if (remaining === null) return 'unlimited';
+  if (remaining === 0) return 'exhausted';
+  return remaining <= LOW_QUOTA_THRESHOLD ? 'low' : 'available';
+}
@@ -0,0 +1,237 @@
+import { PublicKey } from '@solana/web3.js';
+import type { BillingInterval, ExchangeRate, InvoiceReference, PaymentRecord, Subscription } from './types';
+import { getPlanName, INTERVAL_LABELS } from './catalog';
+import { getBillingAnchor, getNextRenewalAfter, getPeriodStart } from './calendar';
+import { getSubscription, updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { getCurrency } from './tokens';
+import { getPriceUnit } from './pricing';
+import { formatDate, formatDateTime, roundSol } from './utils';
+import { MERCHANT_WALLET } from './config';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+export interface InvoiceLineItem {
+  description: string;
+  amount: number;
+}
+
+export interface Invoice {
+  number: string;
+  issuedAt: number;
+  subscriptionId: string;
+  paymentId: string;
+  payer: string;
+  merchant: string;
+  planName: string;
+  interval: BillingInterval;
+  periodStart: number;
+  periodEnd: number;
+  lineItems: InvoiceLineItem[];
+  total: number;
+  // Unit the line items and total are in, e.g. 'SOL' or 'USD'
+  unit: string;
+  // What was actually sent on-chain when the plan is priced in fiat
+  settlement?: {
+    amount: number;
+    symbol: string;
+    exchangeRate: ExchangeRate;
+  };
+  txSignature: string;
+}
+
+const SIGNATURE_DIGITS = 16;
+
+// Invoice numbers run sequentially per merchant, e.g. INV-9T2Z-000042, and are issued by
+// the subscription API when the payment is stored (server/invoiceNumbers.ts). Payments
+// without one, stored locally or before numbering moved to the server, fall back to a
+// number derived from the transaction signature, or the payment id when there is none.
+export function getInvoiceNumber(
+  payment: Pick<PaymentRecord, 'id' | 'txSignature' | 'invoice'>,
+  merchant: PublicKey = MERCHANT_WALLET
+): string {
+  if (payment.invoice?.number) return payment.invoice.number;
+  const source = payment.txSignature
+    ? payment.txSignature.slice(0, SIGNATURE_DIGITS)
+    : payment.id.replace(/^pay_/, '');
+  return `INV-${merchant.toBase58().slice(0, 4).toUpperCase()}-${source}`;
+}
+
+export function createInvoiceReference(
+  subscription: Pick<Subscription, 'planId' | 'planVersion'>,
+  periodStart: number,
+  periodEnd: number
+): InvoiceReference {
+  return {
+    planId: subscription.planId,
+    planVersion: subscription.planVersion,
+    periodStart,
+    periodEnd,
+  };
+}
+
+// Payments recorded before invoicing existed get their reference the first time their
+// invoice is opened, with the period worked out from the billing calendar. It is written
+// onto the stored history under the subscription's lock, so every tab sees the same one.
+export async function ensureInvoiceReference(
+  walletAddress: string,
+  subscription: Subscription,
+  payment: PaymentRecord
+): Promise<InvoiceReference> {
+  if (payment.invoice) return payment.invoice;
+
+  return withSubscriptionLock(walletAddress, subscription.id, async () => {
+    const current = (await getSubscription(walletAddress, subscription.id)) ?? subscription;
+    const stored = current.paymentHistory.find((p) => p.id === payment.id)?.invoice;
+    if (stored) return stored;
+
+    const anchor = getBillingAnchor(current);
+    const periodEnd = getNextRenewalAfter(anchor, current.interval, payment.timestamp);
+    const periodStart =
+      payment.kind === 'proration' ? payment.timestamp : getPeriodStart(anchor, current.interval, periodEnd);
+    const invoice = createInvoiceReference(current, periodStart, periodEnd);
+
+    await updateSubscription(walletAddress, subscription.id, {
+      paymentHistory: current.paymentHistory.map((p) => (p.id === payment.id ? { ...p, invoice } : p)),
+    });
+    dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+      subscriptionId: subscription.id,
+      action: 'invoice_issued',
+    });
+    return invoice;
+  });
+}
+
+export function buildInvoice(
+  subscription: Subscription,
+  payment: PaymentRecord,
+  reference: InvoiceReference,
+  merchant: PublicKey = MERCHANT_WALLET
+): Invoice {
+  const planName = getPlanName(reference.planId);
+  const period = `${formatDate(reference.periodStart)} – ${formatDate(reference.periodEnd)}`;
+  const lineItems: InvoiceLineItem[] = [];
+
+  if (payment.kind === 'proration') {
+    lineItems.push({ description: `Prorated change to ${planName} (${period})`, amount: payment.amount });
+  } else {
+    const gross = roundSol(
+      payment.amount + (payment.discount?.amount ?? 0) + (payment.creditApplied ?? 0) - (payment.overage?.amount ?? 0)
+    );
+    lineItems.push({
+      description: `${planName} – ${INTERVAL_LABELS[subscription.interval]} (${period})`,
+      amount: gross,
+    });
+    if (payment.overage) {
+      const { quantity, included, unitPrice, periodStart, periodEnd } = payment.overage;
+      lineItems.push({
+        description: `Usage: ${quantity - included} transactions over the ${included} included, at ${unitPrice} each (${formatDate(periodStart)} – ${formatDate(periodEnd)})`,
+        amount: payment.overage.amount,
+      });
+    }
+    if (payment.discount) {
+      lineItems.push({ description: `Promo code ${payment.discount.couponCode}`, amount: -payment.discount.amount });
+    }
+    if (payment.creditApplied) {
+      lineItems.push({ description: 'Account credit applied', amount: -payment.creditApplied });
+    }
+  }
+
+  return {
+    number: getInvoiceNumber(payment, merchant),
+    issuedAt: payment.timestamp,
+    subscriptionId: subscription.id,
+    paymentId: payment.id,
+    payer: subscription.walletAddress,
+    merchant: merchant.toBase58(),
+    planName,
+    interval: subscription.interval,
+    periodStart: reference.periodStart,
+    periodEnd: reference.periodEnd,
+    lineItems,
+    total: payment.amount,
+    unit: getPriceUnit(subscription),
+    settlement:
+      payment.exchangeRate && payment.settledAmount !== undefined
+        ? {
+            amount: payment.settledAmount,
+            symbol: getCurrency(subscription).symbol,
+            exchangeRate: payment.exchangeRate,
+          }
+        : undefined,
+    txSignature: payment.txSignature,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// A standalone document that prints cleanly on A4 or Letter; "Save as PDF" in the
+// browser's print dialog turns it into the downloadable copy
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const amount = (value: number) => escapeHtml(`${value} ${invoice.unit}`);
+  const rows = invoice.lineItems
+    .map(
+      (item) =>
+        `<tr><td>${escapeHtml(item.description)}</td><td class="amount">${amount(item.amount)}</td></tr>`
+    )
+    .join('');
+  const settlement = invoice.settlement
+    ? `<p class="muted">Paid ${escapeHtml(`${invoice.settlement.amount} ${invoice.settlement.symbol}`)} at ${escapeHtml(
+        `${invoice.settlement.exchangeRate.rate} ${invoice.settlement.exchangeRate.quote}/${invoice.settlement.exchangeRate.base}`
+      )} (${escapeHtml(invoice.settlement.exchangeRate.source)} rate, ${escapeHtml(
+        formatDateTime(invoice.settlement.exchangeRate.fetchedAt)
+      )})</p>`
+    : '';
+  const transaction = invoice.txSignature
+    ? `<p class="mono">${escapeHtml(invoice.txSignature)}</p>`
+    : '<p class="muted">No on-chain payment (covered by credit or discount)</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Invoice ${escapeHtml(invoice.number)}</title>
+<style>
+  @page { size: auto; margin: 20mm; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111; margin: 0 auto; max-width: 720px; padding: 24px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #666; margin: 24px 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #ddd; font-size: 14px; }
+  .amount { text-align: right; white-space: nowrap; }
+  .total td { font-weight: 600; border-bottom: none; }
+  .muted { color: #666; font-size: 13px; }
+  .mono { font-family: ui-monospace, Menlo, monospace; font-size: 12px; word-break: break-all; }
+  .parties { display: flex; gap: 32px; }
+  .parties > div { flex: 1; }
+</style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(invoice.number)}</h1>
+  <p class="muted">Issued ${escapeHtml(formatDate(invoice.issuedAt))} · Paid</p>
+  <div class="parties">
+    <div><h2>From</h2><p class="mono">${escapeHtml(invoice.merchant)}</p></div>
+    <div><h2>Billed to</h2><p class="mono">${escapeHtml(invoice.payer)}</p></div>
+  </div>
+  <h2>Subscription</h2>
+  <p>${escapeHtml(invoice.planName)} · ${escapeHtml(INTERVAL_LABELS[invoice.interval])} · ${escapeHtml(
+    `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}`
+  )}</p>
+  <p class="muted">${escapeHtml(invoice.subscriptionId)}</p>
+  <table>
+    <thead><tr><th>Description</th><th class="amount">Amount</th></tr></thead>
+    <tbody>${rows}</tbody>
+    <tfoot><tr class="total"><td>Total</td><td class="amount">${amount(invoice.total)}</td></tr></tfoot>
+  </table>
+  ${settlement}
+  <h2>Transaction</h2>
+  ${transaction}
+</body>
+</html>`;
+}
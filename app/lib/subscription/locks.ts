@@ -0,0 +1,37 @@
+// Mutual exclusion across every open tab, so two tabs never charge or rewrite the same
+// subscription at once. Browsers without the Web Locks API fall back to a lock that
+// only covers the current tab.
+
+const localQueues = new Map<string, Promise<unknown>>();
+
+function withLocalLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const run = (localQueues.get(name) ?? Promise.resolve()).then(fn);
+  const queued = run.catch(() => undefined);
+  localQueues.set(name, queued);
+  queued.then(() => {
+    if (localQueues.get(name) === queued) localQueues.delete(name);
+  });
+  return run;
+}
+
+// Locks are not reentrant: code holding one must not call anything that takes the same lock
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return await navigator.locks.request(name, fn);
+  }
+  return withLocalLock(name, fn);
+}
+
+export function getSubscriptionLockName(walletAddress: string, subscriptionId: string): string {
+  return `lazorkit-subscription:${walletAddress}:${subscriptionId}`;
+}
+
+// Held while charging a subscription or changing it from a copy that may be stale.
+// Work done under it should re-read the subscription first.
+export function withSubscriptionLock<T>(
+  walletAddress: string,
+  subscriptionId: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  return withLock(getSubscriptionLockName(walletAddress, subscriptionId), fn);
+}
@@ -0,0 +1,48 @@
+import type { Subscription, SubscriptionStatus } from './types';
+import { getPriceUnit } from './pricing';
+import { roundSol } from './utils';
+
+// A subscription as the merchant sees it, alongside the wallet paying for it
+export interface MerchantSubscriber {
+  walletAddress: string;
+  subscription: Subscription;
+}
+
+export interface SubscriberFilter {
+  status: SubscriptionStatus | 'all';
+  query: string;
+}
+
+// Sum of successful charges, in the subscription's price unit
+export function getLifetimePaid(subscription: Subscription): number {
+  const total = subscription.paymentHistory
+    .filter((payment) => payment.status === 'success')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  return roundSol(total);
+}
+
+// Revenue can't be summed across SOL, USDC and fiat, so totals are kept per price unit
+export function getRevenueByUnit(subscribers: MerchantSubscriber[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const { subscription } of subscribers) {
+    const unit = getPriceUnit(subscription);
+    totals[unit] = roundSol((totals[unit] ?? 0) + getLifetimePaid(subscription));
+  }
+  return totals;
+}
+
+export function countSubscriberWallets(subscribers: MerchantSubscriber[]): number {
+  return new Set(subscribers.map((subscriber) => subscriber.walletAddress)).size;
+}
+
+export function filterSubscribers(
+  subscribers: MerchantSubscriber[],
+  { status, query }: SubscriberFilter
+): MerchantSubscriber[] {
+  const search = query.trim().toLowerCase();
+  return subscribers.filter(
+    ({ walletAddress, subscription }) =>
+      (status === 'all' || subscription.status === status) &&
+      (!search || walletAddress.toLowerCase().includes(search))
+  );
+}
@@ -0,0 +1,17 @@
+import { MERCHANT_API_URL, MERCHANT_WALLET, SUBSCRIPTION_API_URL } from './config';
+import { getSessionClient } from './sessionClient';
+
+// The merchant API only answers the merchant wallet, so its requests carry a session
+// signed by that wallet
+const sessions = getSessionClient(`${SUBSCRIPTION_API_URL}/session`);
+
+export const MERCHANT_WALLET_ADDRESS = MERCHANT_WALLET.toBase58();
+
+export async function merchantRequest<T>(path: string, init: RequestInit = {}): Promise<T | undefined> {
+  const response = await sessions.authorizedFetch(MERCHANT_WALLET_ADDRESS, `${MERCHANT_API_URL}${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Merchant API request failed with status ${response.status}`);
+  }
+  return response.status === 204 ? undefined : response.json();
+}
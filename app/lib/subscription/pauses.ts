@@ -0,0 +1,150 @@
+import type { Subscription } from './types';
+import { getSubscriptionPlan } from './catalog';
+import { getSubscription, getSubscriptions, updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { getBillingAnchor } from './calendar';
+import { PAUSE_CONFIG, type PauseConfig } from './config';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getMaxPauseDays(subscription: Subscription, config: PauseConfig = PAUSE_CONFIG): number {
+  return getSubscriptionPlan(subscription)?.maxPauseDays ?? config.defaultMaxDays;
+}
+
+// Earliest and latest time a pause starting at `now` may end
+export function getPauseWindow(
+  subscription: Subscription,
+  now: number,
+  config: PauseConfig = PAUSE_CONFIG
+): { earliest: number; latest: number } {
+  return {
+    earliest: now + config.minDays * DAY_MS,
+    latest: now + getMaxPauseDays(subscription, config) * DAY_MS,
+  };
+}
+
+export function getPausePresets(subscription: Subscription, config: PauseConfig = PAUSE_CONFIG): number[] {
+  const maxDays = getMaxPauseDays(subscription, config);
+  return config.presetDays.filter((days) => days >= config.minDays && days <= maxDays);
+}
+
+export function pauseEndAfterDays(days: number, now: number): number {
+  return now + days * DAY_MS;
+}
+
+// Null when the pause is allowed, otherwise why it isn't
+export function validatePause(
+  subscription: Subscription,
+  pausedUntil: number,
+  now: number,
+  config: PauseConfig = PAUSE_CONFIG
+): string | null {
+  if (subscription.status !== 'active') return 'Only active subscriptions can be paused';
+  if (subscription.cancelAtPeriodEnd) return 'This subscription is set to cancel at the end of its period';
+  const { earliest, latest } = getPauseWindow(subscription, now, config);
+  if (pausedUntil < earliest) {
+    return `A pause must last at least ${config.minDays} day${config.minDays === 1 ? '' : 's'}`;
+  }
+  if (pausedUntil > latest) {
+    return `This plan can be paused for up to ${getMaxPauseDays(subscription, config)} days`;
+  }
+  return null;
+}
+
+export async function pauseSubscription(
+  walletAddress: string,
+  subscription: Subscription,
+  pausedUntil: number,
+  now: number = Date.now()
+): Promise<void> {
+  await withSubscriptionLock(walletAddress, subscription.id, async () => {
+    const current = await getSubscription(walletAddress, subscription.id);
+    if (!current) throw new Error('Subscription not found');
+    const invalid = validatePause(current, pausedUntil, now);
+    if (invalid) throw new Error(invalid);
+
+    await updateSubscription(walletAddress, subscription.id, {
+      status: 'paused',
+      pausedUntil,
+      pausedAt: now,
+    });
+  });
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'paused',
+  });
+}
+
+export function isAutoResumeDue(subscription: Subscription, now: number = Date.now()): boolean {
+  return (
+    subscription.status === 'paused' &&
+    subscription.pausedUntil !== undefined &&
+    now >= subscription.pausedUntil
+  );
+}
+
+// The billing calendar moves later by the time spent paused, so the paid time left when
+// the pause began is still owed and nothing more. Pauses recorded without a start don't
+// move it, and a renewal already due is charged on the next billing run.
+export function getResumedCalendar(
+  subscription: Subscription,
+  resumedAt: number
+): Pick<Subscription, 'billingAnchor' | 'nextBillingDate'> {
+  const pausedFor = subscription.pausedAt === undefined ? 0 : Math.max(resumedAt - subscription.pausedAt, 0);
+  return {
+    billingAnchor: getBillingAnchor(subscription) + pausedFor,
+    nextBillingDate: subscription.nextBillingDate + pausedFor,
+  };
+}
+
+async function applyResume(walletAddress: string, subscription: Subscription, resumedAt: number): Promise<void> {
+  await updateSubscription(walletAddress, subscription.id, {
+    status: 'active',
+    pausedUntil: undefined,
+    pausedAt: undefined,
+    ...getResumedCalendar(subscription, resumedAt),
+  });
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'resumed',
+  });
+}
+
+export async function resumeSubscription(
+  walletAddress: string,
+  subscription: Subscription,
+  resumedAt: number = Date.now()
+): Promise<void> {
+  await withSubscriptionLock(walletAddress, subscription.id, async () => {
+    // It may have been resumed or cancelled in another tab since it was shown
+    const current = await getSubscription(walletAddress, subscription.id);
+    if (current?.status !== 'paused') throw new Error('This subscription is not paused');
+
+    await applyResume(walletAddress, current, resumedAt);
+  });
+}
+
+// Resumes pauses that have run their course. The pause is taken to end at `pausedUntil`
+// rather than now, so a renewal missed while the app was closed is still charged on the
+// next billing run.
+export async function resumeDueSubscriptions(
+  walletAddress: string,
+  now: number = Date.now()
+): Promise<Subscription[]> {
+  const due = (await getSubscriptions(walletAddress)).filter((sub) => isAutoResumeDue(sub, now));
+  const resumed: Subscription[] = [];
+
+  for (const subscription of due) {
+    await withSubscriptionLock(walletAddress, subscription.id, async () => {
+      // It may have been resumed or cancelled in another tab meanwhile
+      const current = await getSubscription(walletAddress, subscription.id);
+      if (!current || !isAutoResumeDue(current, now) || current.pausedUntil === undefined) return;
+
+      await applyResume(walletAddress, current, current.pausedUntil);
+      resumed.push(current);
+    });
+  }
+
+  return resumed;
+}
@@ -0,0 +1,61 @@
+import type { Subscription } from './types';
+import { getPlanPrice, type SubscriptionPlan } from './catalog';
+import { updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { getPriceUnit, isSamePricing } from './pricing';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+export async function schedulePlanChange(
+  walletAddress: string,
+  subscription: Subscription,
+  plan: SubscriptionPlan,
+  now: number = Date.now()
+): Promise<void> {
+  if (!isSamePricing(subscription, plan)) {
+    throw new Error(`${plan.name} is billed in ${getPriceUnit(plan)}`);
+  }
+  await withSubscriptionLock(walletAddress, subscription.id, () =>
+    updateSubscription(walletAddress, subscription.id, {
+      pendingChange: {
+        planId: plan.id,
+        planVersion: plan.version,
+        amount: getPlanPrice(plan, subscription.interval),
+        effectiveDate: subscription.nextBillingDate,
+        requestedAt: now,
+      },
+    })
+  );
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'plan_change_scheduled',
+  });
+}
+
+export async function withdrawPlanChange(walletAddress: string, subscription: Subscription): Promise<void> {
+  await withSubscriptionLock(walletAddress, subscription.id, () =>
+    updateSubscription(walletAddress, subscription.id, {
+      pendingChange: undefined,
+    })
+  );
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'plan_change_withdrawn',
+  });
+}
+
+// Folds a scheduled change into the subscription once its effective date has
+// arrived, so the renewal for the new period is charged at the new plan's price.
+export function applyDuePlanChange(subscription: Subscription, now: number = Date.now()): Subscription {
+  const { pendingChange } = subscription;
+  if (!pendingChange || now < pendingChange.effectiveDate) {
+    return subscription;
+  }
+
+  return {
+    ...subscription,
+    planId: pendingChange.planId,
+    planVersion: pendingChange.planVersion,
+    amount: pendingChange.amount,
+    pendingChange: undefined,
+  };
+}
@@ -0,0 +1,72 @@
+import type { ExchangeRate, FiatCurrency, PaymentCurrency, Subscription } from './types';
+import { getCurrency, isSameCurrency } from './tokens';
+
+// Anything that can price a token in fiat: a local stub, an oracle, an exchange API
+export interface PriceFeed {
+  getRate(base: string, quote: FiatCurrency): Promise<ExchangeRate>;
+}
+
+type Priced = Pick<Subscription, 'currency' | 'priceCurrency'>;
+
+export interface ChargeQuote {
+  // Amount to send on-chain, in the payment currency
+  amount: number;
+  exchangeRate?: ExchangeRate;
+}
+
+// Fixed rates so local runs and demos always convert the same way
+export const STUB_RATES: Record<string, Record<FiatCurrency, number>> = {
+  SOL: { USD: 150, EUR: 138 },
+  USDC: { USD: 1, EUR: 0.92 },
+};
+
+export function createStubPriceFeed(
+  rates: Record<string, Record<FiatCurrency, number>> = STUB_RATES,
+  now: () => number = Date.now
+): PriceFeed {
+  return {
+    async getRate(base, quote) {
+      const rate = rates[base]?.[quote];
+      if (!rate) {
+        throw new Error(`No ${base}/${quote} rate available`);
+      }
+      return { base, quote, rate, source: 'stub', fetchedAt: now() };
+    },
+  };
+}
+
+export const DEFAULT_PRICE_FEED: PriceFeed = createStubPriceFeed();
+
+// Unit that amounts on the subscription or plan are quoted in, e.g. 'USD' or 'SOL'
+export function getPriceUnit(priced: Priced): string {
+  return priced.priceCurrency ?? getCurrency(priced).symbol;
+}
+
+// Plans can only be switched when both are quoted and paid the same way; credit isn't converted
+export function isSamePricing(a: Priced, b: Priced): boolean {
+  return a.priceCurrency === b.priceCurrency && isSameCurrency(getCurrency(a), getCurrency(b));
+}
+
+function roundTo(amount: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(amount * factor) / factor;
+}
+
+export function convertFromFiat(amount: number, rate: ExchangeRate, currency: PaymentCurrency): number {
+  return roundTo(amount / rate.rate, currency.decimals);
+}
+
+// Works out what to send for a charge of `amount` in the price unit, fetching a
+// rate only when the subscription is priced in fiat
+export async function quoteCharge(
+  amount: number,
+  priced: Priced,
+  priceFeed: PriceFeed = DEFAULT_PRICE_FEED
+): Promise<ChargeQuote> {
+  if (!priced.priceCurrency) {
+    return { amount };
+  }
+  const currency = getCurrency(priced);
+  const exchangeRate = await priceFeed.getRate(currency.symbol, priced.priceCurrency);
+  return { amount: convertFromFiat(amount, exchangeRate, currency), exchangeRate };
+}
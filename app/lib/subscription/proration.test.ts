@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPlan } from './catalog';
+import { applyProratedChange, calculateProration } from './proration';
+import { calculateCancellationRefund } from './cancellations';
+import { pauseSubscription, resumeSubscription } from './pauses';
+import { addSubscription, getSubscription, resetSubscriptions } from './storage.fixtures';
+import { DAY_MS, FEB_1, JAN_1, WALLET, createTestDeps, paidSubscription } from './billing.fixtures';
+
+vi.mock('./storage', () => import('./storage.fixtures'));
+
+const basic = getPlan('basic')!;
+const pro = getPlan('pro')!;
+// Halfway through January: 15.5 of its 31 days are left
+const MID_JANUARY = JAN_1 + 15.5 * DAY_MS;
+
+// Applies the change as the app would, charging or crediting the difference
+async function changePlan(planId: 'basic' | 'pro', now: number) {
+  const subscription = (await getSubscription(WALLET, 'sub_basic'))!;
+  const preview = calculateProration(subscription, planId === 'pro' ? pro : basic, now);
+  await applyProratedChange(subscription, preview, createTestDeps(now));
+  return preview;
+}
+
+beforeEach(async () => {
+  resetSubscriptions();
+  await addSubscription(WALLET, paidSubscription());
+});
+
+describe('calculateProration', () => {
+  it('credits the unused half of a paid month and charges half the new price', () => {
+    const preview = calculateProration(paidSubscription(), pro, MID_JANUARY);
+    expect(preview.remainingFraction).toBe(0.5);
+    expect(preview.unusedCredit).toBe(0.05);
+    expect(preview.amountDue).toBe(0.2);
+  });
+
+  it('credits a discounted period at what was paid, not the list price', () => {
+    const subscription = paidSubscription();
+    subscription.paymentHistory[0].amount = 0.08;
+    expect(calculateProration(subscription, pro, MID_JANUARY).unusedCredit).toBe(0.04);
+  });
+
+  it('gives the upgrade charge back when downgrading straight afterwards', async () => {
+    const upgrade = await changePlan('pro', MID_JANUARY);
+    const downgrade = await changePlan('basic', MID_JANUARY);
+
+    expect(downgrade.unusedCredit).toBe(0.25);
+    expect(downgrade.creditIssued).toBe(upgrade.amountDue);
+    expect((await getSubscription(WALLET, 'sub_basic'))!.creditBalance).toBe(0.2);
+  });
+
+  it('does not credit the same time twice when upgrading again after a downgrade', async () => {
+    await changePlan('pro', MID_JANUARY);
+    await changePlan('basic', MID_JANUARY);
+    const again = await changePlan('pro', MID_JANUARY);
+
+    // The 0.2 already given back as credit is no longer paid time
+    expect(again.unusedCredit).toBe(0.05);
+    expect(again.amountDue).toBe(0.2);
+  });
+});
+
+describe('calculateCancellationRefund', () => {
+  it('refunds the unused share of both the renewal and the upgrade charge', async () => {
+    await changePlan('pro', MID_JANUARY);
+    const subscription = (await getSubscription(WALLET, 'sub_basic'))!;
+
+    expect(calculateCancellationRefund(subscription, MID_JANUARY)?.amount).toBe(0.25);
+    // A week later, 8.5 of the 15.5 days paid at the Pro rate are left
+    expect(calculateCancellationRefund(subscription, MID_JANUARY + 7 * DAY_MS)?.amount).toBeCloseTo(0.25 * (8.5 / 15.5), 9);
+  });
+});
+
+describe('after a pause', () => {
+  const JAN_10 = JAN_1 + 9 * DAY_MS;
+  const JAN_30 = JAN_1 + 29 * DAY_MS;
+  const JAN_31 = JAN_1 + 30 * DAY_MS;
+
+  // Paid Jan 1, paused Jan 10 to Jan 30: 20 days of the month paused, 22 of its 31 paid days left
+  beforeEach(async () => {
+    await pauseSubscription(WALLET, paidSubscription(), JAN_30, JAN_10);
+    await resumeSubscription(WALLET, paidSubscription(), JAN_30);
+  });
+
+  it('still counts the charge from before the pause once the period has moved past it', async () => {
+    const subscription = (await getSubscription(WALLET, 'sub_basic'))!;
+    expect(subscription.nextBillingDate).toBe(FEB_1 + 20 * DAY_MS);
+
+    const preview = calculateProration(subscription, pro, JAN_31);
+    expect(preview.periodStart).toBe(JAN_1 + 20 * DAY_MS);
+    expect(preview.remainingFraction).toBeCloseTo(21 / 31, 9);
+    expect(preview.unusedCredit).toBeCloseTo(0.1 * (21 / 31), 9);
+    expect(preview.amountDue).toBeCloseTo(0.4 * (21 / 31), 9);
+  });
+
+  it('refunds the paid days left when cancelled', async () => {
+    const subscription = (await getSubscription(WALLET, 'sub_basic'))!;
+    expect(calculateCancellationRefund(subscription, JAN_31)?.amount).toBeCloseTo(0.1 * (21 / 31), 9);
+  });
+});
@@ -0,0 +1,145 @@
+import type { Subscription, SubscriptionPlanId } from './types';
+import { getPlanPrice, type SubscriptionPlan } from './catalog';
+import { getSubscription, updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { addPaymentRecord, getUnusedPaidValue, roundSol, toLamports } from './utils';
+import { getBillingAnchor, getPeriodStart } from './calendar';
+import { sendPayment, type BillingRunnerDeps } from './billing';
+import { getCurrency } from './tokens';
+import { getPriceUnit, isSamePricing, quoteCharge } from './pricing';
+import { createInvoiceReference } from './invoices';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+export interface ProrationPreview {
+  fromPlanId: SubscriptionPlanId;
+  toPlanId: SubscriptionPlanId;
+  toPlanVersion: number;
+  currentAmount: number;
+  newAmount: number;
+  periodStart: number;
+  periodEnd: number;
+  remainingFraction: number;
+  unusedCredit: number;
+  newPlanCost: number;
+  // Exactly one of these is non-zero: an upgrade charges, a downgrade credits
+  amountDue: number;
+  creditIssued: number;
+}
+
+export function calculateProration(
+  subscription: Subscription,
+  toPlan: SubscriptionPlan,
+  now: number = Date.now()
+): ProrationPreview {
+  if (!isSamePricing(subscription, toPlan)) {
+    throw new Error(`${toPlan.name} is billed in ${getPriceUnit(toPlan)}`);
+  }
+  const newAmount = getPlanPrice(toPlan, subscription.interval);
+  const periodEnd = subscription.nextBillingDate;
+  const periodStart = getPeriodStart(getBillingAnchor(subscription), subscription.interval, periodEnd);
+  const periodLength = periodEnd - periodStart;
+  const remainingFraction =
+    periodLength > 0 ? Math.min(Math.max((periodEnd - now) / periodLength, 0), 1) : 0;
+
+  // Unused time is credited at what was actually paid for it, upgrade charges included, so
+  // a discounted period isn't bought back at full price and an upgrade can be undone
+  const unusedCredit = getUnusedPaidValue(subscription, periodStart, now);
+  const newPlanCost = roundSol(newAmount * remainingFraction);
+  const difference = roundSol(newPlanCost - unusedCredit);
+
+  return {
+    fromPlanId: subscription.planId,
+    toPlanId: toPlan.id,
+    toPlanVersion: toPlan.version,
+    currentAmount: subscription.amount,
+    newAmount,
+    periodStart,
+    periodEnd,
+    remainingFraction,
+    unusedCredit,
+    newPlanCost,
+    amountDue: Math.max(difference, 0),
+    creditIssued: Math.max(-difference, 0),
+  };
+}
+
+// Runs under the subscription's lock against the stored copy. The preview is refused if
+// that copy no longer matches it, e.g. after a renewal or plan change in another tab.
+export async function applyProratedChange(
+  seen: Subscription,
+  preview: ProrationPreview,
+  deps: BillingRunnerDeps
+): Promise<string | null> {
+  return withSubscriptionLock(deps.walletAddress, seen.id, async () => {
+    const subscription = await getSubscription(deps.walletAddress, seen.id);
+    if (
+      !subscription ||
+      subscription.planId !== preview.fromPlanId ||
+      subscription.amount !== preview.currentAmount ||
+      subscription.nextBillingDate !== preview.periodEnd
+    ) {
+      throw new Error('This subscription changed in another tab. Review the plan change again.');
+    }
+    return applyPreview(subscription, preview, deps);
+  });
+}
+
+async function applyPreview(
+  subscription: Subscription,
+  preview: ProrationPreview,
+  deps: BillingRunnerDeps
+): Promise<string | null> {
+  const now = deps.now ?? Date.now;
+  let paymentHistory = subscription.paymentHistory;
+  let prorationCredits = subscription.prorationCredits;
+  let txSignature: string | null = null;
+
+  if (toLamports(preview.amountDue) > 0) {
+    const quote = await quoteCharge(preview.amountDue, subscription, deps.priceFeed);
+    txSignature = await sendPayment(quote.amount, deps, getCurrency(subscription));
+    const chargedAt = now();
+    paymentHistory = addPaymentRecord(subscription, {
+      amount: preview.amountDue,
+      timestamp: chargedAt,
+      txSignature,
+      status: 'success',
+      kind: 'proration',
+      ...(quote.exchangeRate && { settledAmount: quote.amount, exchangeRate: quote.exchangeRate }),
+      invoice: createInvoiceReference(
+        { planId: preview.toPlanId, planVersion: preview.toPlanVersion },
+        chargedAt,
+        preview.periodEnd
+      ),
+    }).paymentHistory;
+  }
+  if (preview.creditIssued > 0) {
+    prorationCredits = [
+      ...(prorationCredits ?? []),
+      { amount: preview.creditIssued, issuedAt: now(), periodEnd: preview.periodEnd },
+    ];
+  }
+
+  await updateSubscription(deps.walletAddress, subscription.id, {
+    planId: preview.toPlanId,
+    planVersion: preview.toPlanVersion,
+    amount: preview.newAmount,
+    paymentHistory,
+    creditBalance: roundSol((subscription.creditBalance ?? 0) + preview.creditIssued) || undefined,
+    prorationCredits,
+    pendingChange: undefined,
+  });
+
+  if (txSignature) {
+    dispatchWalletEvent(WALLET_EVENTS.TRANSACTION_COMPLETED, {
+      signature: txSignature,
+      type: 'subscription_proration',
+    });
+    dispatchWalletEvent(WALLET_EVENTS.BALANCE_UPDATED);
+  }
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: preview.newAmount >= preview.currentAmount ? 'upgraded' : 'downgraded',
+  });
+
+  return txSignature;
+}
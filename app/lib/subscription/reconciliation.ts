@@ -0,0 +1,277 @@
+import { Connection, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import type { PaymentReconciliation, PaymentRecord, Subscription } from './types';
+import { getSubscription, getSubscriptions, updateSubscription } from './storage';
+import { withSubscriptionLock } from './locks';
+import { generatePaymentId, roundSol } from './utils';
+import { getBillingAnchor, getPeriodStart } from './calendar';
+import { clearDunning } from './dunning';
+import { calculateDiscountAmount } from './coupons';
+import { getCurrency, isTokenCurrency, toBaseUnits } from './tokens';
+import { createInvoiceReference } from './invoices';
+import { advanceBillingDate } from './billing';
+import { MERCHANT_WALLET } from './config';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+export type ReconciliationConnection = Pick<
+  Connection,
+  'getParsedTransactions' | 'getSignaturesForAddress'
+>;
+
+export interface ReconciliationDeps {
+  walletAddress: string;
+  connection: ReconciliationConnection;
+  merchant?: PublicKey;
+  now?: () => number;
+  // How far back the wallet's signature history is searched for lost payments
+  historyLimit?: number;
+}
+
+export interface ReconciliationIssue {
+  subscriptionId: string;
+  paymentId: string;
+  txSignature: string;
+  reconciliation: PaymentReconciliation;
+}
+
+export interface ReconciliationReport {
+  checkedAt: number;
+  verified: number;
+  issues: ReconciliationIssue[];
+  restored: PaymentRecord[];
+  // Payments to the merchant that couldn't be tied to exactly one subscription
+  unmatched: string[];
+}
+
+// A SOL or token transfer found in a transaction. For tokens, `source` is the
+// signing owner rather than the token account, so it compares against the wallet.
+interface Transfer {
+  source: string;
+  destination: string;
+  amount: bigint;
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const PARSED_TX_CONFIG = { maxSupportedTransactionVersion: 0, commitment: 'confirmed' } as const;
+
+// Smart wallet payments arrive as CPIs, so inner instructions are searched as well
+function extractTransfers(tx: ParsedTransactionWithMeta): Transfer[] {
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+  const transfers: Transfer[] = [];
+
+  for (const instruction of instructions) {
+    if (!('parsed' in instruction)) continue;
+    const { type, info } = instruction.parsed ?? {};
+    if (instruction.program === 'system' && type === 'transfer') {
+      transfers.push({ source: info.source, destination: info.destination, amount: BigInt(info.lamports) });
+    } else if (instruction.program === 'spl-token' && (type === 'transfer' || type === 'transferChecked')) {
+      transfers.push({
+        source: info.authority ?? info.multisigAuthority,
+        destination: info.destination,
+        amount: BigInt(info.tokenAmount?.amount ?? info.amount),
+      });
+    }
+  }
+
+  return transfers;
+}
+
+function getMerchantDestination(subscription: Subscription, merchant: PublicKey): string {
+  const currency = getCurrency(subscription);
+  return isTokenCurrency(currency)
+    ? getAssociatedTokenAddressSync(new PublicKey(currency.mint), merchant, true).toBase58()
+    : merchant.toBase58();
+}
+
+function formatUnits(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+export function verifyPaymentTransaction(
+  subscription: Subscription,
+  payment: PaymentRecord,
+  tx: ParsedTransactionWithMeta | null,
+  merchant: PublicKey,
+  checkedAt: number
+): PaymentReconciliation {
+  if (!tx) {
+    return { status: 'not_found', checkedAt, issues: ['Transaction not found on-chain'] };
+  }
+  if (tx.meta?.err) {
+    return { status: 'mismatch', checkedAt, issues: ['Transaction failed on-chain'] };
+  }
+
+  const currency = getCurrency(subscription);
+  const payer = subscription.walletAddress;
+  const recipient = getMerchantDestination(subscription, merchant);
+  const expected = toBaseUnits(payment.settledAmount ?? payment.amount, currency.decimals);
+  const transfers = extractTransfers(tx);
+  const paid = transfers.filter((t) => t.source === payer && t.destination === recipient);
+
+  if (paid.some((t) => t.amount === expected)) {
+    return { status: 'verified', checkedAt };
+  }
+
+  const issues: string[] = [];
+  if (!transfers.some((t) => t.source === payer)) {
+    issues.push('Not paid from this wallet');
+  }
+  if (!transfers.some((t) => t.destination === recipient)) {
+    issues.push('Not paid to the merchant');
+  }
+  if (paid.length > 0) {
+    issues.push(
+      `Paid ${formatUnits(paid[0].amount, currency.decimals)} ${currency.symbol} on-chain, record says ${formatUnits(
+        expected,
+        currency.decimals
+      )} ${currency.symbol}`
+    );
+  } else if (issues.length === 0) {
+    issues.push('No transfer from this wallet to the merchant');
+  }
+  return { status: 'mismatch', checkedAt, issues };
+}
+
+// The charge a renewal would have sent, in base units. Fiat-priced subscriptions
+// depend on the rate at the time and can't be matched this way.
+function getExpectedCharge(subscription: Subscription): bigint | null {
+  if (subscription.priceCurrency) return null;
+  const amount = roundSol(subscription.amount - calculateDiscountAmount(subscription.amount, subscription.discount));
+  return toBaseUnits(amount, getCurrency(subscription).decimals);
+}
+
+// Rebuilds a payment whose local write was lost after the transaction confirmed,
+// and moves the subscription on as the original charge would have
+function restorePayment(
+  subscription: Subscription,
+  txSignature: string,
+  timestamp: number,
+  checkedAt: number
+): Subscription {
+  const periodEnd = advanceBillingDate(subscription, timestamp);
+  const periodStart = getPeriodStart(getBillingAnchor(subscription), subscription.interval, periodEnd);
+  const payment: PaymentRecord = {
+    id: generatePaymentId(),
+    subscriptionId: subscription.id,
+    amount: roundSol(subscription.amount - calculateDiscountAmount(subscription.amount, subscription.discount)),
+    timestamp,
+    txSignature,
+    status: 'success',
+    kind: subscription.paymentHistory.some((p) => p.status === 'success') ? 'renewal' : 'initial',
+    invoice: createInvoiceReference(subscription, periodStart, periodEnd),
+    reconciliation: { status: 'verified', checkedAt, restored: true },
+  };
+  const coversDuePeriod =
+    (subscription.status === 'active' || subscription.status === 'past_due') &&
+    timestamp >= subscription.nextBillingDate;
+
+  return {
+    ...subscription,
+    ...(coversDuePeriod && { ...clearDunning(), nextBillingDate: periodEnd }),
+    paymentHistory: [...subscription.paymentHistory, payment],
+  };
+}
+
+// Checks every successful payment against its transaction, then searches the
+// wallet's recent signatures for payments to the merchant with no local record
+export async function reconcileSubscriptions(deps: ReconciliationDeps): Promise<ReconciliationReport> {
+  const now = deps.now ?? Date.now;
+  const merchant = deps.merchant ?? MERCHANT_WALLET;
+  const checkedAt = now();
+  const report: ReconciliationReport = { checkedAt, verified: 0, issues: [], restored: [], unmatched: [] };
+  const subscriptions = await getSubscriptions(deps.walletAddress);
+  if (subscriptions.length === 0) return report;
+
+  // Verify existing records in one batched RPC call
+  const toVerify = subscriptions.flatMap((sub) =>
+    sub.paymentHistory.filter((p) => p.status === 'success' && p.txSignature).map((p) => p.txSignature)
+  );
+  const parsed = toVerify.length > 0 ? await deps.connection.getParsedTransactions(toVerify, PARSED_TX_CONFIG) : [];
+  const transactions = new Map(toVerify.map((signature, i) => [signature, parsed[i]]));
+
+  let reconciled = subscriptions.map((sub) => ({
+    ...sub,
+    paymentHistory: sub.paymentHistory.map((payment) => {
+      if (payment.status !== 'success' || !payment.txSignature) return payment;
+      const reconciliation = verifyPaymentTransaction(
+        sub,
+        payment,
+        transactions.get(payment.txSignature) ?? null,
+        merchant,
+        checkedAt
+      );
+      if (reconciliation.status === 'verified') {
+        report.verified += 1;
+      } else {
+        report.issues.push({ subscriptionId: sub.id, paymentId: payment.id, txSignature: payment.txSignature, reconciliation });
+      }
+      return { ...payment, reconciliation };
+    }),
+  }));
+
+  // Look for confirmed payments that never made it into storage
+  const known = new Set(toVerify);
+  const since = Math.min(...subscriptions.map((sub) => sub.createdAt));
+  const signatures = (
+    await deps.connection.getSignaturesForAddress(new PublicKey(deps.walletAddress), {
+      limit: deps.historyLimit ?? DEFAULT_HISTORY_LIMIT,
+    })
+  )
+    .filter((s) => !s.err && !known.has(s.signature) && (s.blockTime ?? 0) * 1000 >= since)
+    .reverse();
+
+  if (signatures.length > 0) {
+    const history = await deps.connection.getParsedTransactions(
+      signatures.map((s) => s.signature),
+      PARSED_TX_CONFIG
+    );
+    const merchantDestinations = new Set(subscriptions.map((sub) => getMerchantDestination(sub, merchant)));
+
+    signatures.forEach(({ signature, blockTime }, i) => {
+      const tx = history[i];
+      if (!tx || tx.meta?.err) return;
+      const payments = extractTransfers(tx).filter(
+        (t) => t.source === deps.walletAddress && merchantDestinations.has(t.destination)
+      );
+      if (payments.length === 0) return;
+
+      const matches = reconciled.filter((sub) => {
+        const expected = getExpectedCharge(sub);
+        const destination = getMerchantDestination(sub, merchant);
+        return payments.some((t) => t.destination === destination && t.amount === expected);
+      });
+      if (matches.length !== 1) {
+        report.unmatched.push(signature);
+        return;
+      }
+
+      const timestamp = (blockTime ?? tx.blockTime ?? 0) * 1000;
+      const restored = restorePayment(matches[0], signature, timestamp, checkedAt);
+      report.restored.push(restored.paymentHistory[restored.paymentHistory.length - 1]);
+      reconciled = reconciled.map((sub) => (sub.id === restored.id ? restored : sub));
+    });
+  }
+
+  const restoredIds = new Set(report.restored.map((payment) => payment.subscriptionId));
+  const loaded = new Map(subscriptions.map((sub) => [sub.id, sub]));
+  for (const sub of reconciled) {
+    const { id, status, nextBillingDate, pastDueSince, retryCount, nextRetryAt, paymentHistory } = sub;
+    await withSubscriptionLock(deps.walletAddress, id, async () => {
+      // A charge recorded by another tab during the RPC calls would be lost by writing
+      // this history, so that subscription waits for the next run instead
+      const current = await getSubscription(deps.walletAddress, id);
+      if (current?.paymentHistory.length !== loaded.get(id)?.paymentHistory.length) return;
+
+      await updateSubscription(deps.walletAddress, id, {
+        paymentHistory,
+        ...(restoredIds.has(id) && { status, nextBillingDate, pastDueSince, retryCount, nextRetryAt }),
+      });
+    });
+  }
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, { action: 'reconciled' });
+
+  return report;
+}
@@ -0,0 +1,38 @@
+import { SUBSCRIPTION_API_URL } from './config';
+import { getSessionClient } from './sessionClient';
+
+// Redemptions are counted on the server, across every wallet, so a browser can't reset a
+// coupon's cap. The subscription API only stores a discount its subscription has claimed.
+const REDEMPTIONS_URL = `${SUBSCRIPTION_API_URL}/redemptions`;
+
+// Holds one of the coupon's redemptions for the subscription before its checkout pays.
+// Throws when the coupon has run out.
+export async function claimRedemption(walletAddress: string, code: string, subscriptionId: string): Promise<void> {
+  const response = await getSessionClient(`${SUBSCRIPTION_API_URL}/session`).authorizedFetch(
+    walletAddress,
+    REDEMPTIONS_URL,
+    { method: 'POST', body: JSON.stringify({ walletAddress, code, subscriptionId }) }
+  );
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Promo code request failed with status ${response.status}`);
+  }
+}
+
+// Gives back the redemption of a checkout that was never paid. A failure only costs one
+// use of the coupon, so it is logged rather than thrown over the checkout's own error.
+export async function releaseRedemption(walletAddress: string, code: string, subscriptionId: string): Promise<void> {
+  const params = new URLSearchParams({ wallet: walletAddress, code, subscription: subscriptionId });
+  try {
+    const response = await getSessionClient(`${SUBSCRIPTION_API_URL}/session`).authorizedFetch(
+      walletAddress,
+      `${REDEMPTIONS_URL}?${params}`,
+      { method: 'DELETE' }
+    );
+    if (!response.ok) {
+      console.error(`Releasing promo code ${code} failed with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Error releasing promo code ${code}:`, error);
+  }
+}
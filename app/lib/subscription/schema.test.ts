@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { SUBSCRIPTION_SCHEMA_VERSION, loadSubscription, loadSubscriptions, stampSubscription } from './schema';
+import { memoryStore, resetSubscriptions } from './storage.fixtures';
+import { JAN_1, WALLET, paidSubscription } from './billing.fixtures';
+import { PATCH } from '../../api/subscriptions/[id]/route';
+
+// The route runs against the in-memory store, as an already signed-in wallet, without webhooks
+vi.mock('./server/fileStore', async () => {
+  const { memoryStore } = await import('./storage.fixtures');
+  return { getServerSubscriptionStore: () => memoryStore };
+});
+vi.mock('./server/sessions', () => ({ isAuthorizedFor: () => true }));
+vi.mock('./server/webhooks', () => ({ notifySubscriptionChange: vi.fn() }));
+
+const OTHER_WALLET = 'Other1111111111111111111111111111111111111';
+
+// A record as written before versioning: no version, wallet, interval or payment history
+function unversionedRecord(): Record<string, unknown> {
+  return { id: 'sub_old', planId: 'basic', status: 'active', createdAt: JAN_1, nextBillingDate: JAN_1, amount: 0.1 };
+}
+
+describe('loadSubscription', () => {
+  it('upgrades a record written before versioning', () => {
+    const loaded = loadSubscription(unversionedRecord(), WALLET);
+
+    expect(loaded).toEqual({
+      ok: true,
+      migrated: true,
+      subscription: { ...unversionedRecord(), walletAddress: WALLET, interval: 'month', paymentHistory: [] },
+    });
+  });
+
+  it('keeps fields a version 0 record already has', () => {
+    const loaded = loadSubscription({ ...unversionedRecord(), walletAddress: OTHER_WALLET, interval: 'year' }, WALLET);
+    expect(loaded).toMatchObject({ ok: true, subscription: { walletAddress: OTHER_WALLET, interval: 'year' } });
+  });
+
+  it('reads a current record as it is, without its version stamp', () => {
+    const subscription = paidSubscription();
+    expect(loadSubscription(stampSubscription(subscription), WALLET)).toEqual({
+      ok: true,
+      migrated: false,
+      subscription,
+    });
+  });
+
+  it('rejects records it cannot read', () => {
+    expect(loadSubscription('sub_basic', WALLET)).toEqual({ ok: false, reason: 'not an object' });
+    expect(loadSubscription({ ...paidSubscription(), schemaVersion: SUBSCRIPTION_SCHEMA_VERSION + 1 }, WALLET)).toEqual({
+      ok: false,
+      reason: `written by a newer schema version (${SUBSCRIPTION_SCHEMA_VERSION + 1})`,
+    });
+    expect(loadSubscription(stampSubscription({ ...paidSubscription(), amount: Number.NaN }), WALLET)).toEqual({
+      ok: false,
+      reason: 'amount is not a number',
+    });
+  });
+});
+
+describe('loadSubscriptions', () => {
+  it('quarantines malformed records and keeps the rest', () => {
+    const malformed = { ...stampSubscription(paidSubscription()), status: 'lapsed', paymentHistory: [{ id: 'pay_1' }] };
+    const loaded = loadSubscriptions([stampSubscription(paidSubscription()), malformed], WALLET, JAN_1);
+
+    expect(loaded.subscriptions).toEqual([paidSubscription()]);
+    expect(loaded.quarantined).toEqual([
+      { walletAddress: WALLET, raw: malformed, reason: 'unknown status lapsed; payment 0 is malformed', quarantinedAt: JAN_1 },
+    ]);
+    expect(loaded.changed).toBe(true);
+  });
+
+  it('only asks for a rewrite when something was migrated or quarantined', () => {
+    expect(loadSubscriptions([stampSubscription(paidSubscription())], WALLET).changed).toBe(false);
+    expect(loadSubscriptions([unversionedRecord()], WALLET).changed).toBe(true);
+  });
+});
+
+describe('PATCH /api/subscriptions/[id]', () => {
+  beforeEach(async () => {
+    resetSubscriptions();
+    await memoryStore.add(WALLET, paidSubscription());
+  });
+
+  function patch(body: unknown) {
+    const request = new NextRequest('http://localhost/api/subscriptions/sub_basic', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    });
+    return PATCH(request, { params: Promise.resolve({ id: 'sub_basic' }) });
+  }
+
+  it('refuses to move a subscription to another wallet', async () => {
+    const response = await patch({ walletAddress: WALLET, set: { walletAddress: OTHER_WALLET } });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid subscription: walletAddress does not match the wallet');
+    expect(await memoryStore.get(WALLET, 'sub_basic')).toEqual(paidSubscription());
+  });
+
+  it('refuses to unset the wallet', async () => {
+    const response = await patch({ walletAddress: WALLET, unset: ['walletAddress'] });
+    expect(response.status).toBe(400);
+    expect(await memoryStore.get(WALLET, 'sub_basic')).toEqual(paidSubscription());
+  });
+
+  it('applies a change that keeps the record with its wallet', async () => {
+    const response = await patch({ walletAddress: WALLET, set: { cancelAtPeriodEnd: true } });
+    expect(response.status).toBe(200);
+    expect(await memoryStore.get(WALLET, 'sub_basic')).toMatchObject({ walletAddress: WALLET, cancelAtPeriodEnd: true });
+  });
+});
@@ -0,0 +1,195 @@
+import type { BillingInterval, Subscription, SubscriptionStatus } from './types';
+
+// Version stamped on every stored subscription. Bump it together with a new entry in
+// MIGRATIONS whenever a change to Subscription needs old records rewritten.
+export const SUBSCRIPTION_SCHEMA_VERSION = 1;
+
+export type StoredSubscription = Subscription & { schemaVersion: number };
+
+// A stored value that couldn't be read, kept as it was so nothing is lost
+export interface QuarantinedRecord {
+  walletAddress: string;
+  raw: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+type StoredRecord = Record<string, unknown>;
+
+interface MigrationContext {
+  walletAddress: string;
+}
+
+// MIGRATIONS[n] upgrades a record from version n to n + 1
+const MIGRATIONS: ((record: StoredRecord, context: MigrationContext) => StoredRecord)[] = [
+  // 0 -> 1: records written before versioning. Billing was monthly only then, and every
+  // field added since is optional, so only the required basics need filling in.
+  (record, { walletAddress }) => ({
+    ...record,
+    walletAddress: record.walletAddress ?? walletAddress,
+    interval: record.interval ?? 'month',
+    paymentHistory: record.paymentHistory ?? [],
+  }),
+];
+
+// Kept as records so that adding a status or interval to the types without listing it
+// here is a compile error, rather than valid data failing validation
+const STATUSES: Record<SubscriptionStatus, true> = {
+  trialing: true,
+  active: true,
+  past_due: true,
+  cancelled: true,
+  paused: true,
+  expired: true,
+};
+
+const INTERVALS: Record<BillingInterval, true> = {
+  week: true,
+  month: true,
+  quarter: true,
+  year: true,
+};
+
+const isObject = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+
+// Problems that would make the record unsafe to use; empty when it is a valid Subscription
+export function validateSubscription(value: unknown): string[] {
+  if (!isObject(value)) return ['not an object'];
+
+  const problems: string[] = [];
+  const check = (ok: boolean, problem: string) => {
+    if (!ok) problems.push(problem);
+  };
+
+  check(isString(value.id), 'id is missing');
+  check(isString(value.planId), 'planId is missing');
+  check(isString(value.walletAddress), 'walletAddress is missing');
+  check(typeof value.status === 'string' && value.status in STATUSES, `unknown status ${String(value.status)}`);
+  check(typeof value.interval === 'string' && value.interval in INTERVALS, `unknown interval ${String(value.interval)}`);
+  check(isNumber(value.createdAt), 'createdAt is not a number');
+  check(isNumber(value.nextBillingDate), 'nextBillingDate is not a number');
+  check(isNumber(value.amount), 'amount is not a number');
+  check(isOptionalNumber(value.trialEndsAt), 'trialEndsAt is not a number');
+  check(value.trialPlanId === undefined || isString(value.trialPlanId), 'trialPlanId is not a string');
+  check(isOptionalNumber(value.cancellationDate), 'cancellationDate is not a number');
+  check(
+    value.cancelledFrom === undefined || (typeof value.cancelledFrom === 'string' && value.cancelledFrom in STATUSES),
+    `unknown cancelledFrom ${String(value.cancelledFrom)}`
+  );
+  check(isOptionalNumber(value.creditBalance), 'creditBalance is not a number');
+  check(isOptionalNumber(value.pausedAt), 'pausedAt is not a number');
+  check(value.cancelAtPeriodEnd === undefined || typeof value.cancelAtPeriodEnd === 'boolean', 'cancelAtPeriodEnd is not a boolean');
+  check(value.usageEvents === undefined || Array.isArray(value.usageEvents), 'usageEvents is not a list');
+  check(
+    value.prorationCredits === undefined || Array.isArray(value.prorationCredits),
+    'prorationCredits is not a list'
+  );
+
+  if (!Array.isArray(value.paymentHistory)) {
+    problems.push('paymentHistory is not a list');
+  } else {
+    value.paymentHistory.forEach((payment, index) => {
+      const valid =
+        isObject(payment) &&
+        isString(payment.id) &&
+        isNumber(payment.amount) &&
+        isNumber(payment.timestamp) &&
+        (payment.status === 'success' || payment.status === 'failed');
+      check(valid, `payment ${index} is malformed`);
+    });
+  }
+
+  return problems;
+}
+
+export type LoadResult =
+  | { ok: true; subscription: Subscription; migrated: boolean }
+  | { ok: false; reason: string };
+
+// Runs a stored record through the migrations it is missing, then validates it
+export function loadSubscription(raw: unknown, walletAddress: string): LoadResult {
+  if (!isObject(raw)) return { ok: false, reason: 'not an object' };
+
+  const version = raw.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { ok: false, reason: `invalid schema version ${String(version)}` };
+  }
+  if (version > SUBSCRIPTION_SCHEMA_VERSION) {
+    return { ok: false, reason: `written by a newer schema version (${version})` };
+  }
+
+  let record = raw;
+  try {
+    for (let from = version; from < SUBSCRIPTION_SCHEMA_VERSION; from++) {
+      record = MIGRATIONS[from](record, { walletAddress });
+    }
+  } catch (error) {
+    return { ok: false, reason: `migration from version ${version} failed: ${String(error)}` };
+  }
+
+  const problems = validateSubscription(record);
+  if (problems.length > 0) return { ok: false, reason: problems.join('; ') };
+
+  const subscription = { ...record };
+  delete subscription.schemaVersion;
+  return {
+    ok: true,
+    subscription: subscription as unknown as Subscription,
+    migrated: version !== SUBSCRIPTION_SCHEMA_VERSION,
+  };
+}
+
+export interface LoadedSubscriptions {
+  subscriptions: Subscription[];
+  quarantined: QuarantinedRecord[];
+  // True when any record was migrated or quarantined, so the stored copy should be rewritten
+  changed: boolean;
+}
+
+export function loadSubscriptions(
+  raws: unknown[],
+  walletAddress: string,
+  now: number = Date.now()
+): LoadedSubscriptions {
+  const result: LoadedSubscriptions = { subscriptions: [], quarantined: [], changed: false };
+  for (const raw of raws) {
+    const loaded = loadSubscription(raw, walletAddress);
+    if (loaded.ok) {
+      result.subscriptions.push(loaded.subscription);
+      result.changed ||= loaded.migrated;
+    } else {
+      result.quarantined.push(quarantine(raw, walletAddress, loaded.reason, now));
+      result.changed = true;
+    }
+  }
+  return result;
+}
+
+export function quarantine(
+  raw: unknown,
+  walletAddress: string,
+  reason: string,
+  now: number = Date.now()
+): QuarantinedRecord {
+  return { walletAddress, raw, reason, quarantinedAt: now };
+}
+
+export function logQuarantined(records: QuarantinedRecord[]): void {
+  records.forEach((record) =>
+    console.warn(`Quarantined a stored subscription for ${record.walletAddress}: ${record.reason}`)
+  );
+}
+
+export function stampSubscription(subscription: Subscription): StoredSubscription {
+  return { ...subscription, schemaVersion: SUBSCRIPTION_SCHEMA_VERSION };
+}
+
+export function unstampSubscription(stored: StoredSubscription): Subscription {
+  const subscription: Partial<StoredSubscription> = { ...stored };
+  delete subscription.schemaVersion;
+  return subscription as Subscription;
+}
@@ -0,0 +1,133 @@
+import path from 'path';
+import type { Subscription } from '../types';
+import type { SubscriptionStore } from '../store';
+import type { MerchantSubscriber } from '../merchant';
+import {
+  loadSubscriptions,
+  logQuarantined,
+  quarantine,
+  stampSubscription,
+  unstampSubscription,
+  type QuarantinedRecord,
+  type StoredSubscription,
+} from '../schema';
+import { DATA_DIR, createJsonFile } from './jsonFile';
+
+// Wallet address to stored records, which may predate the current schema until normalised
+type SubscriptionFile = Record<string, unknown>;
+
+export const SUBSCRIPTIONS_DATA_FILE = process.env.SUBSCRIPTIONS_DATA_FILE || path.join(DATA_DIR, 'subscriptions.json');
+
+// The server also answers for every wallet at once, for the merchant dashboard
+export interface ServerSubscriptionStore extends SubscriptionStore {
+  listAll(): Promise<MerchantSubscriber[]>;
+}
+
+function loadFile(data: SubscriptionFile) {
+  const subscriptions: Record<string, Subscription[]> = {};
+  const quarantined: QuarantinedRecord[] = [];
+  let changed = false;
+
+  for (const [walletAddress, raws] of Object.entries(data)) {
+    if (!Array.isArray(raws)) {
+      quarantined.push(quarantine(raws, walletAddress, 'stored value is not a list'));
+      changed = true;
+      continue;
+    }
+    const loaded = loadSubscriptions(raws, walletAddress);
+    subscriptions[walletAddress] = loaded.subscriptions;
+    quarantined.push(...loaded.quarantined);
+    changed ||= loaded.changed;
+  }
+  return { subscriptions, quarantined, changed };
+}
+
+// One JSON file holding every wallet's subscriptions, with unreadable records moved to
+// a quarantine file beside it
+export function createFileStore(filePath: string = SUBSCRIPTIONS_DATA_FILE): ServerSubscriptionStore {
+  const file = createJsonFile<SubscriptionFile>(filePath, () => ({}));
+  const quarantinePath = filePath.replace(/(\.json)?$/, '.quarantine.json');
+  const quarantineFile = createJsonFile<QuarantinedRecord[]>(quarantinePath, () => []);
+
+  // Brings every record up to the current schema in place, setting aside what can't be read
+  const normalize = async (data: SubscriptionFile): Promise<Record<string, StoredSubscription[]>> => {
+    const loaded = loadFile(data);
+    if (loaded.changed) {
+      for (const key of Object.keys(data)) delete data[key];
+      for (const [walletAddress, subscriptions] of Object.entries(loaded.subscriptions)) {
+        data[walletAddress] = subscriptions.map(stampSubscription);
+      }
+    }
+    if (loaded.quarantined.length > 0) {
+      logQuarantined(loaded.quarantined);
+      await quarantineFile.mutate((records) => {
+        records.push(...loaded.quarantined);
+      });
+    }
+    return data as Record<string, StoredSubscription[]>;
+  };
+
+  const mutate = <T>(change: (data: Record<string, StoredSubscription[]>) => T): Promise<T> =>
+    file.mutate(async (data) => change(await normalize(data)));
+
+  // Reads only write when something had to be migrated or quarantined
+  const read = async (): Promise<Record<string, Subscription[]>> => {
+    const loaded = loadFile(await file.read());
+    if (!loaded.changed) return loaded.subscriptions;
+
+    await mutate(() => undefined);
+    return loadFile(await file.read()).subscriptions;
+  };
+
+  return {
+    async list(walletAddress) {
+      return (await read())[walletAddress] ?? [];
+    },
+
+    async get(walletAddress, subscriptionId) {
+      return (await read())[walletAddress]?.find((sub) => sub.id === subscriptionId);
+    },
+
+    async add(walletAddress, subscription) {
+      await mutate((data) => {
+        const subscriptions = data[walletAddress] ?? [];
+        if (subscriptions.some((sub) => sub.id === subscription.id)) {
+          throw new Error(`Subscription ${subscription.id} already exists`);
+        }
+        data[walletAddress] = [...subscriptions, stampSubscription(subscription)];
+      });
+    },
+
+    async update(walletAddress, subscriptionId, updates) {
+      return mutate((data) => {
+        const subscriptions = data[walletAddress] ?? [];
+        const index = subscriptions.findIndex((sub) => sub.id === subscriptionId);
+        if (index === -1) return undefined;
+        const updated = { ...unstampSubscription(subscriptions[index]), ...updates };
+        subscriptions[index] = stampSubscription(updated);
+        return updated;
+      });
+    },
+
+    async clear(walletAddress) {
+      await mutate((data) => {
+        delete data[walletAddress];
+      });
+    },
+
+    async listAll() {
+      return Object.entries(await read()).flatMap(([walletAddress, subscriptions]) =>
+        subscriptions.map((subscription) => ({ walletAddress, subscription }))
+      );
+    },
+  };
+}
+
+let serverStore: ServerSubscriptionStore | null = null;
+
+export function getServerSubscriptionStore(): ServerSubscriptionStore {
+  if (!serverStore) {
+    serverStore = createFileStore();
+  }
+  return serverStore;
+}
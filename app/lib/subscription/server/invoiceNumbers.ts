@@ -0,0 +1,50 @@
+import path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import type { PaymentRecord } from '../types';
+import { MERCHANT_WALLET } from '../config';
+import { DATA_DIR, createJsonFile } from './jsonFile';
+
+// Per merchant: the last number issued, and the number each payment was given
+interface InvoiceSequence {
+  lastNumber: number;
+  issued: Record<string, string>;
+}
+
+type InvoiceNumberFile = Record<string, InvoiceSequence>;
+
+export const INVOICE_NUMBERS_DATA_FILE =
+  process.env.INVOICE_NUMBERS_DATA_FILE || path.join(DATA_DIR, 'invoice-numbers.json');
+
+const file = createJsonFile<InvoiceNumberFile>(INVOICE_NUMBERS_DATA_FILE, () => ({}));
+
+// e.g. INV-9T2Z-000042
+function formatInvoiceNumber(merchant: PublicKey, sequence: number): string {
+  return `INV-${merchant.toBase58().slice(0, 4).toUpperCase()}-${String(sequence).padStart(6, '0')}`;
+}
+
+// Numbers every invoiced payment in the history, sequentially per merchant. A payment keeps
+// the number it was first given however often it is written back, so numbers never repeat
+// and only skip when a numbered payment is never stored. Numbers sent by the client are
+// replaced; only the server issues them.
+export function assignInvoiceNumbers(
+  payments: PaymentRecord[],
+  merchant: PublicKey = MERCHANT_WALLET
+): Promise<PaymentRecord[]> {
+  if (!payments.some((payment) => payment.status === 'success' && payment.invoice)) {
+    return Promise.resolve(payments);
+  }
+
+  return file.mutate((data) => {
+    const merchantAddress = merchant.toBase58();
+    const sequence = (data[merchantAddress] ??= { lastNumber: 0, issued: {} });
+
+    return payments.map((payment) => {
+      if (payment.status !== 'success' || !payment.invoice) return payment;
+      if (!sequence.issued[payment.id]) {
+        sequence.lastNumber += 1;
+        sequence.issued[payment.id] = formatInvoiceNumber(merchant, sequence.lastNumber);
+      }
+      return { ...payment, invoice: { ...payment.invoice, number: sequence.issued[payment.id] } };
+    });
+  });
+}
@@ -0,0 +1,47 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Server data lives in .data/ unless a path is configured
+export const DATA_DIR = path.join(process.cwd(), '.data');
+
+export interface JsonFile<T> {
+  read(): Promise<T>;
+  // Changes are queued, so two requests never read the same snapshot and overwrite each other's change
+  mutate<R>(change: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+export function createJsonFile<T>(filePath: string, empty: () => T): JsonFile<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return empty();
+      throw error;
+    }
+  };
+
+  // Written to a temporary file first, so a crash mid-write never leaves half a file behind
+  const write = async (data: T): Promise<void> => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, filePath);
+  };
+
+  return {
+    read,
+
+    mutate(change) {
+      const run = queue.then(async () => {
+        const data = await read();
+        const result = await change(data);
+        await write(data);
+        return result;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
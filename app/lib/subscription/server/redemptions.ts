@@ -0,0 +1,102 @@
+import path from 'path';
+import type { AppliedDiscount } from '../types';
+import { findCoupon, toAppliedDiscount } from '../coupons';
+import { DATA_DIR, createJsonFile } from './jsonFile';
+
+// One use of a coupon, held from before the checkout's payment so the cap can't be
+// overrun by checkouts running at the same time
+export interface CouponRedemption {
+  code: string;
+  walletAddress: string;
+  subscriptionId: string;
+  redeemedAt: number;
+}
+
+interface RedemptionFile {
+  redemptions: CouponRedemption[];
+}
+
+export const REDEMPTIONS_DATA_FILE = process.env.REDEMPTIONS_DATA_FILE || path.join(DATA_DIR, 'redemptions.json');
+
+const file = createJsonFile<RedemptionFile>(REDEMPTIONS_DATA_FILE, () => ({ redemptions: [] }));
+
+// Null when the redemption is held, otherwise why it can't be. Claiming again for the same
+// subscription holds nothing new, so a retried checkout doesn't use up a second redemption.
+export function claimRedemption(
+  code: string,
+  walletAddress: string,
+  subscriptionId: string,
+  now: number = Date.now()
+): Promise<string | null> {
+  return file.mutate((data) => {
+    const coupon = findCoupon(code);
+    if (!coupon) return 'Unknown promo code';
+
+    const redemptions = data.redemptions.filter((redemption) => redemption.code === coupon.code);
+    if (redemptions.some((redemption) => redemption.subscriptionId === subscriptionId)) return null;
+    if (coupon.expiresAt !== undefined && now >= coupon.expiresAt) {
+      return `Promo code ${coupon.code} has expired`;
+    }
+    if (coupon.maxRedemptions !== undefined && redemptions.length >= coupon.maxRedemptions) {
+      return `Promo code ${coupon.code} is no longer available`;
+    }
+
+    data.redemptions.push({ code: coupon.code, walletAddress, subscriptionId, redeemedAt: now });
+    return null;
+  });
+}
+
+// Gives back a redemption whose checkout was never paid
+export function releaseRedemption(code: string, walletAddress: string, subscriptionId: string): Promise<boolean> {
+  return file.mutate((data) => {
+    const normalized = findCoupon(code)?.code ?? code;
+    const before = data.redemptions.length;
+    data.redemptions = data.redemptions.filter(
+      (redemption) =>
+        !(
+          redemption.code === normalized &&
+          redemption.walletAddress === walletAddress &&
+          redemption.subscriptionId === subscriptionId
+        )
+    );
+    return data.redemptions.length < before;
+  });
+}
+
+// Null when a subscription may carry the discount, otherwise why not. A new discount has to
+// match its coupon and have a redemption claimed for this subscription, so a client can't
+// write one in directly; one already on the subscription may only use up its cycles.
+export async function checkDiscount(
+  subscriptionId: string,
+  discount: AppliedDiscount | undefined,
+  previous?: AppliedDiscount
+): Promise<string | null> {
+  if (!discount) return null;
+  const coupon = findCoupon(discount.couponCode);
+  if (!coupon || coupon.code !== discount.couponCode) return `Unknown promo code ${discount.couponCode}`;
+
+  const expected = toAppliedDiscount(coupon, discount.redeemedAt);
+  if (
+    discount.type !== expected.type ||
+    discount.value !== expected.value ||
+    discount.duration !== expected.duration
+  ) {
+    return `Discount does not match promo code ${coupon.code}`;
+  }
+
+  const isExisting = previous?.couponCode === discount.couponCode;
+  const cyclesAllowed = isExisting ? previous.cyclesRemaining : expected.cyclesRemaining;
+  if (
+    cyclesAllowed !== undefined &&
+    (discount.cyclesRemaining === undefined || discount.cyclesRemaining > cyclesAllowed)
+  ) {
+    return `Promo code ${coupon.code} has no more discounted payments`;
+  }
+  if (isExisting) return null;
+
+  const { redemptions } = await file.read();
+  const claimed = redemptions.some(
+    (redemption) => redemption.code === coupon.code && redemption.subscriptionId === subscriptionId
+  );
+  return claimed ? null : `Promo code ${coupon.code} was not redeemed for this subscription`;
+}
@@ -0,0 +1,115 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MERCHANT_WALLET, RPC_URL } from '../config';
+import {
+  LAZORKIT_PROGRAM_ID,
+  SESSION_MESSAGE_MAX_AGE_MS,
+  SESSION_TTL_MS,
+  buildSessionMessage,
+  type SessionRequest,
+  type SessionToken,
+} from '../apiAuth';
+
+// walletDevice account layout: 8-byte discriminator, passkey (33), credential hash (32), smart wallet (32)
+const PASSKEY_OFFSET = 8;
+const PASSKEY_LENGTH = 33;
+const SMART_WALLET_OFFSET = PASSKEY_OFFSET + PASSKEY_LENGTH + 32;
+
+// Without a configured secret, tokens only survive until the server restarts
+const SESSION_SECRET = process.env.SUBSCRIPTIONS_API_SECRET || randomBytes(32).toString('hex');
+// Lets server-side tools call the merchant API without a wallet; unset, only the merchant wallet can
+const MERCHANT_API_SECRET = process.env.MERCHANT_API_SECRET;
+
+// The passkey registered for the smart wallet, read from its walletDevice account rather
+// than taken from the request, so a key the wallet doesn't own can't sign for it
+async function getWalletPasskey(walletAddress: string, walletDevice: string): Promise<BufferSource> {
+  const connection = new Connection(RPC_URL, 'confirmed');
+  const account = await connection.getAccountInfo(new PublicKey(walletDevice));
+
+  if (!account || !account.owner.equals(new PublicKey(LAZORKIT_PROGRAM_ID))) {
+    throw new Error('Unknown wallet device');
+  }
+  const smartWallet = new PublicKey(account.data.subarray(SMART_WALLET_OFFSET, SMART_WALLET_OFFSET + 32));
+  if (smartWallet.toBase58() !== walletAddress) {
+    throw new Error('Wallet device belongs to a different wallet');
+  }
+  return Uint8Array.from(account.data.subarray(PASSKEY_OFFSET, PASSKEY_OFFSET + PASSKEY_LENGTH));
+}
+
+async function verifyPasskeySignature(
+  passkey: BufferSource,
+  signature: BufferSource,
+  signedPayload: BufferSource
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', passkey, { name: 'ECDSA', namedCurve: 'P-256' }, false, [
+    'verify',
+  ]);
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, signature, signedPayload);
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', SESSION_SECRET).update(value).digest('base64url');
+}
+
+// Checks a signed session message and returns a token for the wallet's writes
+export async function createSession(request: SessionRequest, now: number = Date.now()): Promise<SessionToken> {
+  if (Math.abs(now - request.issuedAt) > SESSION_MESSAGE_MAX_AGE_MS) {
+    throw new Error('Signed message has expired');
+  }
+
+  // The portal returns the payload it signed; it has to carry the message we asked for
+  const signedPayload = Buffer.from(request.signedPayload, 'base64');
+  const message = buildSessionMessage(request.walletAddress, request.issuedAt);
+  if (!signedPayload.includes(Buffer.from(message))) {
+    throw new Error('Signed payload does not match the session message');
+  }
+
+  const passkey = await getWalletPasskey(request.walletAddress, request.walletDevice);
+  const isValid = await verifyPasskeySignature(
+    passkey,
+    Uint8Array.from(Buffer.from(request.signature, 'base64')),
+    Uint8Array.from(signedPayload)
+  );
+  if (!isValid) {
+    throw new Error('Invalid signature');
+  }
+
+  const expiresAt = now + SESSION_TTL_MS;
+  const value = `${request.walletAddress}.${expiresAt}`;
+  return { token: `${value}.${sign(value)}`, expiresAt };
+}
+
+// The wallet a bearer token was issued to, or null if it's missing, forged or expired
+export function getSessionWallet(authorization: string | null, now: number = Date.now()): string | null {
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) return null;
+
+  const [walletAddress, expiresAt, signature] = token.split('.');
+  if (!walletAddress || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${walletAddress}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  if (Number(expiresAt) <= now) return null;
+
+  return walletAddress;
+}
+
+export function isAuthorizedFor(request: Request, walletAddress: string): boolean {
+  return getSessionWallet(request.headers.get('authorization')) === walletAddress;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const expected = Buffer.from(a);
+  const actual = Buffer.from(b);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Merchant API callers: a session signed by the merchant wallet, or the admin secret
+export function isMerchantRequest(request: Request): boolean {
+  const authorization = request.headers.get('authorization');
+  if (getSessionWallet(authorization) === MERCHANT_WALLET.toBase58()) return true;
+
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  return Boolean(MERCHANT_API_SECRET && token && safeEqual(MERCHANT_API_SECRET, token));
+}
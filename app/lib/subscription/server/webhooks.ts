@@ -0,0 +1,366 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import path from 'path';
+import { Connection } from '@solana/web3.js';
+import { MERCHANT_WALLET, RPC_URL, WEBHOOK_RETRY_CONFIG } from '../config';
+import type { PaymentRecord, Subscription } from '../types';
+import { verifyPaymentTransaction } from '../reconciliation';
+import { toLamports } from '../utils';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SIGNATURE_HEADER,
+  detectLifecycleEvents,
+  type WebhookAttempt,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEvent,
+  type WebhookEventType,
+} from '../webhooks';
+import { DATA_DIR, createJsonFile } from './jsonFile';
+import { getServerSubscriptionStore } from './fileStore';
+
+interface WebhookFile {
+  endpoints: WebhookEndpoint[];
+  deliveries: WebhookDelivery[];
+}
+
+export const WEBHOOKS_DATA_FILE = process.env.WEBHOOKS_DATA_FILE || path.join(DATA_DIR, 'webhooks.json');
+
+// Older deliveries drop out of the log once it's this long
+const MAX_LOGGED_DELIVERIES = 200;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Receivers on the server's own network are refused so endpoints can't be used to reach
+// internal services. Set for local development, e.g. with scripts/webhook-receiver.mjs.
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOKS_ALLOW_PRIVATE_URLS === 'true';
+
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Null when the url may receive webhooks, otherwise why not. Checked when an endpoint is
+// registered and again before each delivery, since the host's addresses can change.
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'A valid url is required';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Webhook urls must use http or https';
+  }
+  if (ALLOW_PRIVATE_URLS) return null;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return 'Webhook urls must point to a public address';
+  }
+  return null;
+}
+
+const file = createJsonFile<WebhookFile>(WEBHOOKS_DATA_FILE, () => ({ endpoints: [], deliveries: [] }));
+
+// Deliveries being sent right now, so overlapping runs don't send one twice
+const inFlight = new Set<string>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+// For receivers: checks the signature header against the raw request body
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Secrets are only shown in full when an endpoint is registered
+export function maskSecret(endpoint: WebhookEndpoint): WebhookEndpoint {
+  return { ...endpoint, secret: `${endpoint.secret.slice(0, 6)}…${endpoint.secret.slice(-4)}` };
+}
+
+export async function listEndpoints(): Promise<WebhookEndpoint[]> {
+  return (await file.read()).endpoints;
+}
+
+export async function registerEndpoint(
+  url: string,
+  events: WebhookEventType[] = [...WEBHOOK_EVENT_TYPES]
+): Promise<WebhookEndpoint> {
+  const endpoint: WebhookEndpoint = {
+    id: generateId('we'),
+    url,
+    secret: `whsec_${randomBytes(24).toString('hex')}`,
+    events,
+    createdAt: Date.now(),
+  };
+  await file.mutate((data) => {
+    data.endpoints.push(endpoint);
+  });
+  return endpoint;
+}
+
+export async function removeEndpoint(endpointId: string): Promise<boolean> {
+  return file.mutate((data) => {
+    const count = data.endpoints.length;
+    data.endpoints = data.endpoints.filter((endpoint) => endpoint.id !== endpointId);
+    return data.endpoints.length !== count;
+  });
+}
+
+// Newest first
+export async function listDeliveries(): Promise<WebhookDelivery[]> {
+  return [...(await file.read()).deliveries].reverse();
+}
+
+export function getRetryDelay(attemptCount: number): number {
+  return WEBHOOK_RETRY_CONFIG.initialDelay * 2 ** (attemptCount - 1);
+}
+
+async function send(delivery: WebhookDelivery, endpoint: WebhookEndpoint | undefined): Promise<WebhookAttempt> {
+  const startedAt = Date.now();
+  if (!endpoint) {
+    return { at: startedAt, error: 'Endpoint was removed', durationMs: 0 };
+  }
+
+  const refused = await checkWebhookUrl(endpoint.url);
+  if (refused) {
+    return { at: startedAt, error: refused, durationMs: Date.now() - startedAt };
+  }
+
+  const body = JSON.stringify(delivery.event);
+  try {
+    // Redirects aren't followed, so a receiver can't bounce the request to an internal address
+    const response = await fetch(endpoint.url, {
+      redirect: 'manual',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+        'X-Lazorkit-Event': delivery.event.type,
+        'X-Lazorkit-Delivery': delivery.id,
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_RETRY_CONFIG.timeout),
+    });
+    return {
+      at: startedAt,
+      statusCode: response.status,
+      error: response.ok ? undefined : `Receiver answered ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      at: startedAt,
+      error: error instanceof Error ? error.message : 'Request failed',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+// Sends one delivery and records the attempt. Automatic attempts schedule a retry on
+// failure; a manual redelivery is a single extra attempt.
+async function attempt(deliveryId: string, manual: boolean): Promise<WebhookDelivery | undefined> {
+  if (inFlight.has(deliveryId)) return undefined;
+  inFlight.add(deliveryId);
+
+  try {
+    const { endpoints, deliveries } = await file.read();
+    const delivery = deliveries.find((entry) => entry.id === deliveryId);
+    if (!delivery) return undefined;
+
+    const result = await send(delivery, endpoints.find((endpoint) => endpoint.id === delivery.endpointId));
+
+    return file.mutate((data) => {
+      const stored = data.deliveries.find((entry) => entry.id === deliveryId);
+      if (!stored) return undefined;
+
+      stored.attempts.push(result);
+      if (!result.error) {
+        stored.status = 'succeeded';
+        stored.nextAttemptAt = undefined;
+      } else if (manual) {
+        // A failed redelivery leaves any automatic retry that is still scheduled in place
+        if (stored.nextAttemptAt === undefined) stored.status = 'failed';
+      } else if (stored.attempts.length < WEBHOOK_RETRY_CONFIG.maxAttempts) {
+        stored.status = 'pending';
+        stored.nextAttemptAt = result.at + getRetryDelay(stored.attempts.length);
+      } else {
+        stored.status = 'failed';
+        stored.nextAttemptAt = undefined;
+      }
+      return stored;
+    });
+  } finally {
+    inFlight.delete(deliveryId);
+  }
+}
+
+function scheduleRetries(deliveries: WebhookDelivery[], now: number): void {
+  const next = Math.min(...deliveries.flatMap((delivery) => delivery.nextAttemptAt ?? []));
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!Number.isFinite(next)) return;
+
+  retryTimer = setTimeout(() => {
+    processDueDeliveries().catch((error) => console.error('Error retrying webhooks:', error));
+  }, Math.max(next - now, 0));
+  retryTimer.unref?.();
+}
+
+// Sends every pending delivery whose time has come, then arms a timer for the next retry.
+// Retry times are stored, so after a restart they resume on the next event or log read.
+export async function processDueDeliveries(now: number = Date.now()): Promise<void> {
+  const { deliveries } = await file.read();
+  const due = deliveries.filter(
+    (delivery) => delivery.status === 'pending' && (delivery.nextAttemptAt ?? 0) <= now
+  );
+  await Promise.all(due.map((delivery) => attempt(delivery.id, false)));
+  scheduleRetries((await file.read()).deliveries, Date.now());
+}
+
+// Queues a delivery to every endpoint subscribed to each event, and sends them
+export async function publishEvents(events: WebhookEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const queued = await file.mutate((data) => {
+    const created: WebhookDelivery[] = [];
+    for (const event of events) {
+      for (const endpoint of data.endpoints.filter((entry) => entry.events.includes(event.type))) {
+        created.push({
+          id: generateId('whd'),
+          endpointId: endpoint.id,
+          url: endpoint.url,
+          event,
+          status: 'pending',
+          attempts: [],
+          nextAttemptAt: event.createdAt,
+          createdAt: event.createdAt,
+        });
+      }
+    }
+    data.deliveries = [...data.deliveries, ...created].slice(-MAX_LOGGED_DELIVERIES);
+    return created.length;
+  });
+
+  if (queued > 0) {
+    await processDueDeliveries();
+  }
+}
+
+export async function redeliver(deliveryId: string): Promise<WebhookDelivery | undefined> {
+  return attempt(deliveryId, true);
+}
+
+// Payments are written by the subscriber's browser, so a successful one is only taken as
+// paid once its transaction is on-chain, paying the merchant what the record says, and
+// isn't already claimed by another of the wallet's payments. A charge covered entirely by
+// credit or discount has nothing on-chain and claims nothing was received.
+async function isPaymentConfirmed(
+  walletAddress: string,
+  subscription: Subscription,
+  payment: PaymentRecord
+): Promise<boolean> {
+  if (toLamports(payment.settledAmount ?? payment.amount) === 0) return true;
+  if (!payment.txSignature) return false;
+
+  const stored = await getServerSubscriptionStore().list(walletAddress);
+  const claims = stored.flatMap((sub) => sub.paymentHistory).filter((p) => p.txSignature === payment.txSignature);
+  if (claims.length !== 1) return false;
+
+  const tx = await new Connection(RPC_URL, 'confirmed').getParsedTransaction(payment.txSignature, {
+    maxSupportedTransactionVersion: 0,
+    commitment: 'confirmed',
+  });
+  return verifyPaymentTransaction(subscription, payment, tx, MERCHANT_WALLET, Date.now()).status === 'verified';
+}
+
+// Events that announce a successful payment are dropped unless it is confirmed on-chain:
+// renewals, and new subscriptions that arrive with a paid first charge
+async function dropUnconfirmedPayments(
+  walletAddress: string,
+  subscription: Subscription,
+  events: WebhookEvent[]
+): Promise<WebhookEvent[]> {
+  const confirmed: WebhookEvent[] = [];
+  for (const event of events) {
+    const payments =
+      event.type === 'subscription.created'
+        ? subscription.paymentHistory.filter((payment) => payment.status === 'success')
+        : event.type === 'subscription.renewed' && event.data.payment
+          ? [event.data.payment]
+          : [];
+    const results = await Promise.all(
+      payments.map((payment) => isPaymentConfirmed(walletAddress, subscription, payment))
+    );
+    if (results.every(Boolean)) {
+      confirmed.push(event);
+    } else {
+      console.warn(`Not sending ${event.type} for ${subscription.id}: its payment isn't confirmed on-chain`);
+    }
+  }
+  return confirmed;
+}
+
+// Called by the subscription routes after a write; deliveries go out in the background
+export function notifySubscriptionChange(
+  walletAddress: string,
+  before: Subscription | undefined,
+  after: Subscription
+): void {
+  dropUnconfirmedPayments(walletAddress, after, detectLifecycleEvents(walletAddress, before, after))
+    .then(publishEvents)
+    .catch((error) => console.error('Error publishing webhooks:', error));
+}
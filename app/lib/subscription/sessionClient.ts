@@ -0,0 +1,94 @@
+import { buildSessionMessage, type SessionRequest, type SessionToken } from './apiAuth';
+
+// The connected wallet, which signs the session message that authorises API requests
+export interface WalletSigner {
+  walletAddress: string;
+  walletDevice: string;
+  signMessage(message: string): Promise<{ signature: string; signedPayload: string }>;
+}
+
+let walletSigner: WalletSigner | null = null;
+
+export function setWalletSigner(signer: WalletSigner | null): void {
+  walletSigner = signer;
+}
+
+// Renew a little before expiry so a request doesn't race the token running out
+const SESSION_RENEW_MARGIN_MS = 60 * 1000;
+
+export interface SessionClient {
+  // Sends the request with the wallet's session token, signing for a new one when needed
+  authorizedFetch(walletAddress: string, url: string, init: RequestInit): Promise<Response>;
+}
+
+function send(url: string, init?: RequestInit): Promise<Response> {
+  return fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+}
+
+// Sessions are issued by the subscription API's session route in exchange for a message
+// signed by the wallet's passkey
+function createSessionClient(sessionUrl: string): SessionClient {
+  const sessions = new Map<string, Promise<SessionToken>>();
+
+  const openSession = async (walletAddress: string): Promise<SessionToken> => {
+    if (!walletSigner || walletSigner.walletAddress !== walletAddress) {
+      throw new Error(`Connect wallet ${walletAddress} to continue`);
+    }
+    const issuedAt = Date.now();
+    const { signature, signedPayload } = await walletSigner.signMessage(buildSessionMessage(walletAddress, issuedAt));
+    const session: SessionRequest = {
+      walletAddress,
+      walletDevice: walletSigner.walletDevice,
+      issuedAt,
+      signature,
+      signedPayload,
+    };
+    const response = await send(sessionUrl, { method: 'POST', body: JSON.stringify(session) });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Session request failed with status ${response.status}`);
+    }
+    return response.json();
+  };
+
+  // Concurrent requests share one pending signature instead of each prompting for the passkey
+  const getSession = async (walletAddress: string, renew = false): Promise<SessionToken> => {
+    const cached = renew ? undefined : sessions.get(walletAddress);
+    if (cached) {
+      const session = await cached.catch(() => null);
+      if (session && session.expiresAt - SESSION_RENEW_MARGIN_MS > Date.now()) return session;
+    }
+    const pending = openSession(walletAddress);
+    sessions.set(walletAddress, pending);
+    pending.catch(() => sessions.delete(walletAddress));
+    return pending;
+  };
+
+  return {
+    // A 401 means the server no longer accepts the token (it restarted, or the secret changed), so sign again once
+    async authorizedFetch(walletAddress, url, init) {
+      const withToken = (session: SessionToken) =>
+        send(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${session.token}` } });
+
+      const response = await withToken(await getSession(walletAddress));
+      if (response.status !== 401) return response;
+      return withToken(await getSession(walletAddress, true));
+    },
+  };
+}
+
+const clients = new Map<string, SessionClient>();
+
+// One client per session route, so every caller shares the wallet's session instead of
+// each asking for its own signature
+export function getSessionClient(sessionUrl: string): SessionClient {
+  let client = clients.get(sessionUrl);
+  if (!client) {
+    client = createSessionClient(sessionUrl);
+    clients.set(sessionUrl, client);
+  }
+  return client;
+}
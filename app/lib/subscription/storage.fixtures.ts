@@ -0,0 +1,51 @@
+import type { Subscription } from './types';
+
+// In-memory stand-in for storage.ts, for tests of library code that reads and writes
+// subscriptions. Tests swap it in with vi.mock('./storage', () => import('./storage.fixtures')).
+// Copies go in and out, so a test can't change a stored record by holding on to it.
+
+const wallets = new Map<string, Subscription[]>();
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+export async function getSubscriptions(walletAddress: string): Promise<Subscription[]> {
+  return copy(wallets.get(walletAddress) ?? []);
+}
+
+export async function getSubscription(walletAddress: string, subscriptionId: string): Promise<Subscription | undefined> {
+  const subscription = wallets.get(walletAddress)?.find((sub) => sub.id === subscriptionId);
+  return subscription && copy(subscription);
+}
+
+export async function addSubscription(walletAddress: string, subscription: Subscription): Promise<void> {
+  wallets.set(walletAddress, [...(wallets.get(walletAddress) ?? []), copy(subscription)]);
+}
+
+export async function updateSubscription(
+  walletAddress: string,
+  subscriptionId: string,
+  updates: Partial<Subscription>
+): Promise<Subscription | undefined> {
+  const subscriptions = wallets.get(walletAddress) ?? [];
+  const index = subscriptions.findIndex((sub) => sub.id === subscriptionId);
+  if (index === -1) return undefined;
+  subscriptions[index] = { ...subscriptions[index], ...copy(updates) };
+  return copy(subscriptions[index]);
+}
+
+export async function clearSubscriptions(walletAddress: string): Promise<void> {
+  wallets.delete(walletAddress);
+}
+
+// Also fits where a SubscriptionStore is passed in, e.g. resumePendingCheckout
+export const memoryStore = {
+  list: getSubscriptions,
+  get: getSubscription,
+  add: addSubscription,
+  update: updateSubscription,
+  clear: clearSubscriptions,
+};
+
+export function resetSubscriptions(): void {
+  wallets.clear();
+}
@@ -0,0 +1,46 @@
+import type { Subscription } from './types';
+import { SUBSCRIPTION_STORE } from './config';
+import { createLocalStorageStore } from './stores/localStorage';
+import { createIndexedDbStore } from './stores/indexedDb';
+import { createHttpStore } from './stores/http';
+import { withChangeBroadcast } from './sync';
+
+// Persistence for a wallet's subscriptions. Every backend works record by record,
+// so an update touches only the subscription it names.
+export interface SubscriptionStore {
+  list(walletAddress: string): Promise<Subscription[]>;
+  get(walletAddress: string, subscriptionId: string): Promise<Subscription | undefined>;
+  add(walletAddress: string, subscription: Subscription): Promise<void>;
+  // Resolves to the updated subscription, or undefined if there was none with that id
+  update(
+    walletAddress: string,
+    subscriptionId: string,
+    updates: Partial<Subscription>
+  ): Promise<Subscription | undefined>;
+  clear(walletAddress: string): Promise<void>;
+}
+
+export type SubscriptionStoreKind = 'local' | 'indexeddb' | 'http';
+
+export function createSubscriptionStore(kind: string = SUBSCRIPTION_STORE): SubscriptionStore {
+  switch (kind) {
+    case 'indexeddb':
+      return createIndexedDbStore();
+    case 'http':
+      return createHttpStore();
+    case 'local':
+      return createLocalStorageStore();
+    default:
+      throw new Error(`Unknown subscription store: ${kind}`);
+  }
+}
+
+let activeStore: SubscriptionStore | null = null;
+
+// Writes through the shared store are announced to other tabs (see sync.ts)
+export function getSubscriptionStore(): SubscriptionStore {
+  if (!activeStore) {
+    activeStore = withChangeBroadcast(createSubscriptionStore());
+  }
+  return activeStore;
+}
@@ -0,0 +1,83 @@
+import type { Subscription } from '../types';
+import type { SubscriptionStore } from '../store';
+import { SUBSCRIPTION_API_URL } from '../config';
+import { getSessionClient } from '../sessionClient';
+
+// Resolves to undefined when the API answers 404
+async function readResponse<T>(response: Response): Promise<T | undefined> {
+  if (response.status === 404) return undefined;
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Subscription API request failed with status ${response.status}`);
+  }
+  if (response.status === 204) return undefined;
+  return response.json();
+}
+
+// JSON drops undefined values, so fields being cleared are sent by name instead
+function splitUpdates(updates: Partial<Subscription>): { set: Partial<Subscription>; unset: string[] } {
+  const set: Partial<Subscription> = {};
+  const unset: string[] = [];
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) {
+      unset.push(key);
+    } else {
+      Object.assign(set, { [key]: value });
+    }
+  }
+  return { set, unset };
+}
+
+// Talks to the subscription API (GET/POST on the collection, GET/PATCH on a subscription).
+// Every request carries a session token, since a wallet's subscriptions and payment history
+// are only shown to that wallet; it signs for a new one when it is missing or expiring.
+export function createHttpStore(baseUrl: string = SUBSCRIPTION_API_URL): SubscriptionStore {
+  const walletQuery = (walletAddress: string) => `wallet=${encodeURIComponent(walletAddress)}`;
+  const sessions = getSessionClient(`${baseUrl}/session`);
+
+  const authorizedRequest = async <T>(walletAddress: string, url: string, init: RequestInit) =>
+    readResponse<T>(await sessions.authorizedFetch(walletAddress, url, init));
+
+  return {
+    async list(walletAddress) {
+      const body = await authorizedRequest<{ subscriptions: Subscription[] }>(
+        walletAddress,
+        `${baseUrl}?${walletQuery(walletAddress)}`,
+        {}
+      );
+      return body?.subscriptions ?? [];
+    },
+
+    async get(walletAddress, subscriptionId) {
+      const body = await authorizedRequest<{ subscription: Subscription }>(
+        walletAddress,
+        `${baseUrl}/${encodeURIComponent(subscriptionId)}?${walletQuery(walletAddress)}`,
+        {}
+      );
+      return body?.subscription;
+    },
+
+    async add(walletAddress, subscription) {
+      await authorizedRequest(walletAddress, baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({ walletAddress, subscription }),
+      });
+    },
+
+    async update(walletAddress, subscriptionId, updates) {
+      const body = await authorizedRequest<{ subscription: Subscription }>(
+        walletAddress,
+        `${baseUrl}/${encodeURIComponent(subscriptionId)}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ walletAddress, ...splitUpdates(updates) }),
+        }
+      );
+      return body?.subscription;
+    },
+
+    async clear(walletAddress) {
+      await authorizedRequest(walletAddress, `${baseUrl}?${walletQuery(walletAddress)}`, { method: 'DELETE' });
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import type { SubscriptionStore } from '../store';
+import {
+  loadSubscription,
+  loadSubscriptions,
+  logQuarantined,
+  quarantine,
+  stampSubscription,
+  type QuarantinedRecord,
+} from '../schema';
+
+const DB_NAME = 'lazorkit-subscriptions';
+// 2 added the quarantine store
+const DB_VERSION = 2;
+const STORE_NAME = 'subscriptions';
+const QUARANTINE_STORE = 'quarantine';
+const WALLET_INDEX = 'walletAddress';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// One record per subscription, keyed by id and indexed by wallet
+export function createIndexedDbStore(): SubscriptionStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+    if (!dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(WALLET_INDEX, WALLET_INDEX);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+        }
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const objectStore = async (mode: IDBTransactionMode) => {
+    const db = await openDb();
+    const transaction = db.transaction([STORE_NAME, QUARANTINE_STORE], mode);
+    return {
+      store: transaction.objectStore(STORE_NAME),
+      quarantineStore: transaction.objectStore(QUARANTINE_STORE),
+      done: transactionDone(transaction),
+    };
+  };
+
+  // Moves unreadable records out of the subscriptions store, keeping them as they were
+  const moveToQuarantine = async (records: QuarantinedRecord[]) => {
+    logQuarantined(records);
+    const { store, quarantineStore, done } = await objectStore('readwrite');
+    for (const record of records) {
+      quarantineStore.add(record);
+      const id = (record.raw as { id?: unknown } | null)?.id;
+      if (typeof id === 'string') store.delete(id);
+    }
+    await done;
+  };
+
+  return {
+    // Migrated records are written back as they're read, and unreadable ones quarantined
+    async list(walletAddress) {
+      if (typeof window === 'undefined') return [];
+      const { store } = await objectStore('readonly');
+      const raws: unknown[] = await requestToPromise(store.index(WALLET_INDEX).getAll(walletAddress));
+      const { subscriptions, quarantined, changed } = loadSubscriptions(raws, walletAddress);
+
+      if (quarantined.length > 0) {
+        await moveToQuarantine(quarantined);
+      }
+      if (changed) {
+        const { store: writable, done } = await objectStore('readwrite');
+        subscriptions.forEach((subscription) => writable.put(stampSubscription(subscription)));
+        await done;
+      }
+      return subscriptions.sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async get(walletAddress, subscriptionId) {
+      if (typeof window === 'undefined') return undefined;
+      const { store } = await objectStore('readonly');
+      const raw: unknown = await requestToPromise(store.get(subscriptionId));
+      if (raw === undefined) return undefined;
+
+      const loaded = loadSubscription(raw, walletAddress);
+      if (!loaded.ok) {
+        await moveToQuarantine([quarantine(raw, walletAddress, loaded.reason)]);
+        return undefined;
+      }
+      return loaded.subscription.walletAddress === walletAddress ? loaded.subscription : undefined;
+    },
+
+    async add(walletAddress, subscription) {
+      const { store, done } = await objectStore('readwrite');
+      store.add(stampSubscription({ ...subscription, walletAddress }));
+      await done;
+    },
+
+    // Read and write happen in one transaction, so concurrent updates can't interleave
+    async update(walletAddress, subscriptionId, updates) {
+      const { store, quarantineStore, done } = await objectStore('readwrite');
+      const raw: unknown = await requestToPromise(store.get(subscriptionId));
+      if (raw === undefined) {
+        await done;
+        return undefined;
+      }
+
+      const loaded = loadSubscription(raw, walletAddress);
+      if (!loaded.ok) {
+        const record = quarantine(raw, walletAddress, loaded.reason);
+        logQuarantined([record]);
+        quarantineStore.add(record);
+        store.delete(subscriptionId);
+        await done;
+        return undefined;
+      }
+      if (loaded.subscription.walletAddress !== walletAddress) {
+        await done;
+        return undefined;
+      }
+
+      const updated = { ...loaded.subscription, ...updates };
+      store.put(stampSubscription(updated));
+      await done;
+      return updated;
+    },
+
+    async clear(walletAddress) {
+      const { store, done } = await objectStore('readwrite');
+      const keys = await requestToPromise(store.index(WALLET_INDEX).getAllKeys(walletAddress));
+      keys.forEach((key) => store.delete(key));
+      await done;
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import type { Subscription } from '../types';
+import type { SubscriptionStore } from '../store';
+import { loadSubscriptions, logQuarantined, quarantine, stampSubscription, type QuarantinedRecord } from '../schema';
+
+const STORAGE_PREFIX = 'subscriptions_';
+const QUARANTINE_PREFIX = 'subscriptions_quarantine_';
+
+// Throws when the write fails (quota exceeded, storage disabled) so callers never carry
+// on as if a subscription or payment had been saved
+function writeSubscriptions(walletAddress: string, subscriptions: Subscription[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${walletAddress}`, JSON.stringify(subscriptions.map(stampSubscription)));
+  } catch (error) {
+    console.error('Error saving subscriptions to storage:', error);
+    throw new Error('Could not save subscriptions to this browser\'s storage');
+  }
+}
+
+function addToQuarantine(walletAddress: string, records: QuarantinedRecord[]): void {
+  logQuarantined(records);
+  const key = `${QUARANTINE_PREFIX}${walletAddress}`;
+  try {
+    const existing: QuarantinedRecord[] = JSON.parse(localStorage.getItem(key) || '[]');
+    localStorage.setItem(key, JSON.stringify([...existing, ...records]));
+  } catch (error) {
+    console.error('Error saving quarantined subscriptions:', error);
+  }
+}
+
+// Reads, migrates and validates a wallet's subscriptions. Anything unreadable moves to
+// the quarantine key first, so the next write can't overwrite it.
+function readSubscriptions(walletAddress: string): Subscription[] {
+  if (typeof window === 'undefined') return [];
+
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(`${STORAGE_PREFIX}${walletAddress}`);
+  } catch (error) {
+    console.error('Error reading subscriptions from storage:', error);
+    return [];
+  }
+  if (!stored) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    parsed = undefined;
+  }
+  if (!Array.isArray(parsed)) {
+    addToQuarantine(walletAddress, [quarantine(stored, walletAddress, 'stored value is not a JSON list')]);
+    localStorage.removeItem(`${STORAGE_PREFIX}${walletAddress}`);
+    return [];
+  }
+
+  const { subscriptions, quarantined, changed } = loadSubscriptions(parsed, walletAddress);
+  if (quarantined.length > 0) {
+    addToQuarantine(walletAddress, quarantined);
+  }
+  if (changed) {
+    // The migrated records are still usable if they can't be written back; the next read retries
+    try {
+      writeSubscriptions(walletAddress, subscriptions);
+    } catch {
+      // already logged
+    }
+  }
+  return subscriptions;
+}
+
+// localStorage holds one JSON array per wallet, so writes still replace that
+// array; the key layout is unchanged from before stores were pluggable
+export function createLocalStorageStore(): SubscriptionStore {
+  return {
+    async list(walletAddress) {
+      return readSubscriptions(walletAddress);
+    },
+
+    async get(walletAddress, subscriptionId) {
+      return readSubscriptions(walletAddress).find((sub) => sub.id === subscriptionId);
+    },
+
+    async add(walletAddress, subscription) {
+      writeSubscriptions(walletAddress, [...readSubscriptions(walletAddress), subscription]);
+    },
+
+    async update(walletAddress, subscriptionId, updates) {
+      const subscriptions = readSubscriptions(walletAddress);
+      const index = subscriptions.findIndex((sub) => sub.id === subscriptionId);
+      if (index === -1) return undefined;
+      subscriptions[index] = { ...subscriptions[index], ...updates };
+      writeSubscriptions(walletAddress, subscriptions);
+      return subscriptions[index];
+    },
+
+    async clear(walletAddress) {
+      if (typeof window === 'undefined') return;
+
+      try {
+        localStorage.removeItem(`${STORAGE_PREFIX}${walletAddress}`);
+      } catch (error) {
+        console.error('Error clearing subscriptions from storage:', error);
+      }
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import type { SubscriptionStore } from './store';
+
+// Tells other tabs that a wallet's subscriptions changed, so they reload instead of
+// acting on what they loaded earlier
+
+const CHANNEL_NAME = 'lazorkit-subscriptions';
+const STORAGE_PREFIX = 'subscriptions_';
+
+interface SubscriptionChangeMessage {
+  walletAddress: string;
+}
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+export function broadcastSubscriptionChange(walletAddress: string): void {
+  const message: SubscriptionChangeMessage = { walletAddress };
+  getChannel()?.postMessage(message);
+}
+
+// Calls back when another tab changes the wallet's subscriptions. Without BroadcastChannel,
+// storage events still cover the localStorage store.
+export function listenSubscriptionChanges(walletAddress: string, callback: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const broadcast = getChannel();
+  if (broadcast) {
+    const handler = (event: MessageEvent<SubscriptionChangeMessage>) => {
+      if (event.data?.walletAddress === walletAddress) callback();
+    };
+    broadcast.addEventListener('message', handler);
+    return () => broadcast.removeEventListener('message', handler);
+  }
+
+  const handler = (event: StorageEvent) => {
+    if (event.key === null || event.key === `${STORAGE_PREFIX}${walletAddress}`) callback();
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+}
+
+// Wraps a store so every write it makes is announced to the other tabs
+export function withChangeBroadcast(store: SubscriptionStore): SubscriptionStore {
+  return {
+    list: (walletAddress) => store.list(walletAddress),
+    get: (walletAddress, subscriptionId) => store.get(walletAddress, subscriptionId),
+
+    async add(walletAddress, subscription) {
+      await store.add(walletAddress, subscription);
+      broadcastSubscriptionChange(walletAddress);
+    },
+
+    async update(walletAddress, subscriptionId, updates) {
+      const updated = await store.update(walletAddress, subscriptionId, updates);
+      if (updated) broadcastSubscriptionChange(walletAddress);
+      return updated;
+    },
+
+    async clear(walletAddress) {
+      await store.clear(walletAddress);
+      broadcastSubscriptionChange(walletAddress);
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { PublicKey, Connection, TransactionInstruction } from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+} from '@solana/spl-token';
+import type { PaymentCurrency, Subscription } from './types';
+import { SOL_CURRENCY } from './config';
+
+export type TokenConnection = Pick<Connection, 'getAccountInfo' | 'getTokenAccountBalance'>;
+
+export function getCurrency(subscription: Pick<Subscription, 'currency'>): PaymentCurrency {
+  return subscription.currency ?? SOL_CURRENCY;
+}
+
+export function isSameCurrency(a: PaymentCurrency, b: PaymentCurrency): boolean {
+  return a.symbol === b.symbol && a.mint === b.mint;
+}
+
+export function isTokenCurrency(currency: PaymentCurrency): currency is PaymentCurrency & { mint: string } {
+  return currency.mint !== undefined;
+}
+
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  return BigInt(Math.round(amount * 10 ** decimals));
+}
+
+// Builds the instructions for paying `amount` of an SPL token to the merchant.
+// Checks the payer's balance first so an underfunded wallet fails before the
+// passkey prompt, and creates the merchant's associated token account if needed.
+export async function buildTokenPaymentInstructions(
+  amount: number,
+  currency: PaymentCurrency & { mint: string },
+  payer: PublicKey,
+  merchant: PublicKey,
+  connection: TokenConnection
+): Promise<TransactionInstruction[]> {
+  const mint = new PublicKey(currency.mint);
+  const baseUnits = toBaseUnits(amount, currency.decimals);
+  // Smart wallets are PDAs, so the payer's token account has an off-curve owner
+  const payerTokenAccount = getAssociatedTokenAddressSync(mint, payer, true);
+  const merchantTokenAccount = getAssociatedTokenAddressSync(mint, merchant, true);
+
+  let balance = BigInt(0);
+  try {
+    const { value } = await connection.getTokenAccountBalance(payerTokenAccount);
+    balance = BigInt(value.amount);
+  } catch {
+    // A missing token account simply means a zero balance
+  }
+  if (balance < baseUnits) {
+    throw new Error(
+      `Insufficient funds: ${amount} ${currency.symbol} needed but the wallet holds ${
+        Number(balance) / 10 ** currency.decimals
+      } ${currency.symbol}`
+    );
+  }
+
+  const instructions: TransactionInstruction[] = [];
+  if (!(await connection.getAccountInfo(merchantTokenAccount))) {
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(payer, merchantTokenAccount, merchant, mint)
+    );
+  }
+  instructions.push(
+    createTransferCheckedInstruction(payerTokenAccount, mint, merchantTokenAccount, payer, baseUnits, currency.decimals)
+  );
+
+  return instructions;
+}
@@ -0,0 +1,47 @@
+import type { Subscription } from './types';
+import type { SubscriptionPlan } from './catalog';
+import { updateSubscription } from './storage';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A wallet gets one trial per plan, even if that trial was later cancelled, converted or
+// moved to another plan. Subscriptions from before trialPlanId fall back to their planId.
+// Takes the wallet's subscriptions so eligibility can be worked out during render.
+export function hasUsedTrial(subscriptions: Subscription[], planId: string): boolean {
+  return subscriptions.some(
+    (sub) => sub.trialEndsAt !== undefined && (sub.trialPlanId ?? sub.planId) === planId
+  );
+}
+
+export function isTrialEligible(subscriptions: Subscription[], plan: SubscriptionPlan): boolean {
+  return (plan.trialDays ?? 0) > 0 && !hasUsedTrial(subscriptions, plan.id);
+}
+
+export function calculateTrialEnd(plan: SubscriptionPlan, startedAt: number): number {
+  return startedAt + (plan.trialDays ?? 0) * DAY_MS;
+}
+
+export function isTrialConversionDue(subscription: Subscription, now: number = Date.now()): boolean {
+  return (
+    subscription.status === 'trialing' &&
+    subscription.trialEndsAt !== undefined &&
+    now >= subscription.trialEndsAt
+  );
+}
+
+// Ends a trial without charging. Nothing was paid, so there is no period to honour.
+export async function endTrial(
+  walletAddress: string,
+  subscription: Subscription,
+  now: number = Date.now()
+): Promise<void> {
+  await updateSubscription(walletAddress, subscription.id, {
+    status: 'expired',
+    cancellationDate: now,
+  });
+  dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, {
+    subscriptionId: subscription.id,
+    action: 'trial_ended',
+  });
+}
@@ -1,18 +1,112 @@
-export type SubscriptionStatus = 'active' | 'cancelled' | 'paused' | 'expired';
-export type SubscriptionPlanId = 'basic' | 'pro' | 'enterprise';
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'cancelled' | 'paused' | 'expired';
+// Plan ids come from the plan catalog (see catalog.ts)
+export type SubscriptionPlanId = string;
+export type BillingInterval = 'week' | 'month' | 'quarter' | 'year';
+
+// What a subscription is priced and paid in. Native SOL has no mint.
+export interface PaymentCurrency {
+  symbol: string;
+  decimals: number;
+  mint?: string;
+}
+
+export type FiatCurrency = 'USD' | 'EUR';
+
+// Price of one unit of `base` (e.g. SOL) in `quote` (e.g. USD) at `fetchedAt`
+export interface ExchangeRate {
+  base: string;
+  quote: FiatCurrency;
+  rate: number;
+  source: string;
+  fetchedAt: number;
+}
 
 export interface Subscription {
   id: string;
   planId: SubscriptionPlanId;
+  planVersion?: number;
   walletAddress: string;
   status: SubscriptionStatus;
   createdAt: number;
+  billingAnchor?: number;
   nextBillingDate: number;
+  trialEndsAt?: number;
+  // Plan the trial was started on; planId moves with later plan changes
+  trialPlanId?: SubscriptionPlanId;
   amount: number;
-  interval: 'month';
+  currency?: PaymentCurrency;
+  // Set when amounts are quoted in fiat; each charge is converted into `currency`
+  priceCurrency?: FiatCurrency;
+  interval: BillingInterval;
   paymentHistory: PaymentRecord[];
   cancellationDate?: number;
+  // Status before an immediate cancellation, restored if the subscription is reactivated
+  cancelledFrom?: SubscriptionStatus;
+  // Stays active until nextBillingDate, then is cancelled instead of renewed
+  cancelAtPeriodEnd?: boolean;
+  // Set when cancelled immediately with paid time or credit left over
+  refund?: CancellationRefund;
   pausedUntil?: number;
+  // When the current pause began; resuming pushes billing back by the time spent paused
+  pausedAt?: number;
+  pastDueSince?: number;
+  retryCount?: number;
+  nextRetryAt?: number;
+  creditBalance?: number;
+  // Credit downgrades gave back for paid time this period; cleared at renewal
+  prorationCredits?: ProrationCredit[];
+  pendingChange?: PendingPlanChange;
+  discount?: AppliedDiscount;
+  // Usage-priced plans only: usage not yet billed, cleared as each period's overage is charged
+  usageEvents?: UsageEvent[];
+}
+
+// One metered action, e.g. a transfer, recorded against the subscription that pays for it
+export interface UsageEvent {
+  id: string;
+  quantity: number;
+  timestamp: number;
+  // The transaction it was recorded for, so the same one is never counted twice
+  signature?: string;
+}
+
+export interface PendingPlanChange {
+  planId: SubscriptionPlanId;
+  planVersion?: number;
+  amount: number;
+  effectiveDate: number;
+  requestedAt: number;
+}
+
+// Owed to the subscriber for an immediate cancellation, in the subscription's price unit.
+// The merchant pays it out when notified of the cancellation.
+// Paid time a downgrade turned into account credit: `amount` for the time from issuedAt to periodEnd
+export interface ProrationCredit {
+  amount: number;
+  issuedAt: number;
+  periodEnd: number;
+}
+
+export interface CancellationRefund {
+  amount: number;
+  // Share of the paid period that was left, and the unused account credit; both are in `amount`
+  remainingFraction: number;
+  creditRefunded?: number;
+  periodEnd: number;
+  issuedAt: number;
+}
+
+export type DiscountType = 'percent' | 'fixed';
+export type DiscountDuration = 'once' | 'repeating' | 'forever';
+
+export interface AppliedDiscount {
+  couponCode: string;
+  type: DiscountType;
+  value: number;
+  duration: DiscountDuration;
+  // Charges the discount still applies to; undefined for 'forever'
+  cyclesRemaining?: number;
+  redeemedAt: number;
 }
 
 export interface PaymentRecord {
@@ -22,5 +116,55 @@ export interface PaymentRecord {
   timestamp: number;
   txSignature: string;
   status: 'success' | 'failed';
+  kind?: PaymentKind;
+  failureReason?: PaymentFailureReason;
+  creditApplied?: number;
+  discount?: PaymentDiscount;
+  // Usage above the plan's included quota in the period before this renewal; part of `amount`
+  overage?: PaymentOverage;
+  // Fiat-priced subscriptions only: `amount` is in fiat, `settledAmount` is what was sent on-chain
+  settledAmount?: number;
+  exchangeRate?: ExchangeRate;
+  invoice?: InvoiceReference;
+  reconciliation?: PaymentReconciliation;
+}
+
+export type ReconciliationStatus = 'verified' | 'mismatch' | 'not_found';
+
+// Outcome of the last check of a record against its on-chain transaction
+export interface PaymentReconciliation {
+  status: ReconciliationStatus;
+  checkedAt: number;
+  issues?: string[];
+  // Rebuilt from the wallet's signature history after the local record was lost
+  restored?: boolean;
+}
+
+// Captured when a payment succeeds, so later plan changes don't alter what the invoice says
+export interface InvoiceReference {
+  // Issued by the subscription API when the payment is stored; see getInvoiceNumber
+  number?: string;
+  planId: SubscriptionPlanId;
+  planVersion?: number;
+  periodStart: number;
+  periodEnd: number;
 }
 
+export interface PaymentDiscount {
+  couponCode: string;
+  amount: number;
+}
+
+export interface PaymentOverage {
+  periodStart: number;
+  periodEnd: number;
+  quantity: number;
+  included: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export type PaymentKind = 'initial' | 'renewal' | 'proration';
+
+export type PaymentFailureReason = 'user_rejected' | 'insufficient_funds' | 'rpc_error';
+
@@ -0,0 +1,101 @@
+import type { PaymentOverage, Subscription, UsageEvent } from './types';
+import { getIncludedTransactions, getSubscriptionPlan } from './catalog';
+import { getBillingAnchor, getPeriodStart } from './calendar';
+import { getSubscription, getSubscriptions, updateSubscription } from './storage';
+import { getEntitledSubscription } from './entitlements';
+import { withSubscriptionLock } from './locks';
+import { roundSol } from './utils';
+import { WALLET_EVENTS, dispatchWalletEvent } from '../events/walletEvents';
+
+export function isUsagePriced(subscription: Subscription): boolean {
+  return getSubscriptionPlan(subscription)?.usagePricing !== undefined;
+}
+
+function generateUsageEventId(): string {
+  return `use_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Records metered usage on a usage-priced subscription. Events carrying a signature are
+// recorded once, however many listeners report the same transaction.
+export async function recordSubscriptionUsage(
+  walletAddress: string,
+  subscriptionId: string,
+  usage: { quantity?: number; signature?: string; timestamp?: number }
+): Promise<UsageEvent | undefined> {
+  const recorded = await withSubscriptionLock(walletAddress, subscriptionId, async () => {
+    const subscription = await getSubscription(walletAddress, subscriptionId);
+    if (!subscription || !isUsagePriced(subscription)) return undefined;
+
+    const events = subscription.usageEvents ?? [];
+    if (usage.signature && events.some((event) => event.signature === usage.signature)) {
+      return undefined;
+    }
+
+    const event: UsageEvent = {
+      id: generateUsageEventId(),
+      quantity: usage.quantity ?? 1,
+      timestamp: usage.timestamp ?? Date.now(),
+      ...(usage.signature && { signature: usage.signature }),
+    };
+    await updateSubscription(walletAddress, subscriptionId, { usageEvents: [...events, event] });
+    return event;
+  });
+
+  if (recorded) {
+    dispatchWalletEvent(WALLET_EVENTS.SUBSCRIPTION_UPDATED, { subscriptionId, action: 'usage_recorded' });
+  }
+  return recorded;
+}
+
+// Bills a completed transfer to the plan the wallet is using, when that plan is usage-priced
+export async function recordTransactionUsage(
+  walletAddress: string,
+  signature: string,
+  timestamp: number = Date.now()
+): Promise<UsageEvent | undefined> {
+  const subscription = getEntitledSubscription(await getSubscriptions(walletAddress));
+  if (!subscription || !isUsagePriced(subscription)) return undefined;
+  return recordSubscriptionUsage(walletAddress, subscription.id, { signature, timestamp });
+}
+
+// The period that ends at the next renewal, i.e. the one whose usage that renewal bills
+export function getUsagePeriod(subscription: Subscription): { start: number; end: number } {
+  const end = subscription.nextBillingDate;
+  return { start: getPeriodStart(getBillingAnchor(subscription), subscription.interval, end), end };
+}
+
+export function getPeriodUsage(subscription: Subscription, start: number, end: number): number {
+  return (subscription.usageEvents ?? [])
+    .filter((event) => event.timestamp >= start && event.timestamp < end)
+    .reduce((total, event) => total + event.quantity, 0);
+}
+
+// Usage beyond the included allowance in the period ending at the next renewal. Usage
+// from periods that were skipped while the app was closed is not billed, as their flat
+// fee isn't either. Undefined when there is nothing to bill.
+export function calculateOverage(subscription: Subscription): PaymentOverage | undefined {
+  const plan = getSubscriptionPlan(subscription);
+  if (!plan?.usagePricing) return undefined;
+
+  const { start, end } = getUsagePeriod(subscription);
+  const quantity = getPeriodUsage(subscription, start, end);
+  const included = getIncludedTransactions(plan, subscription.interval);
+  const billable = Math.max(quantity - included, 0);
+  if (billable === 0) return undefined;
+
+  const { unitPrice } = plan.usagePricing;
+  return {
+    periodStart: start,
+    periodEnd: end,
+    quantity,
+    included,
+    unitPrice,
+    amount: roundSol(billable * unitPrice),
+  };
+}
+
+// Events still to be billed once the period ending at `billedUntil` has been charged
+export function getUnbilledUsage(subscription: Subscription, billedUntil: number): UsageEvent[] | undefined {
+  const remaining = (subscription.usageEvents ?? []).filter((event) => event.timestamp >= billedUntil);
+  return remaining.length > 0 ? remaining : undefined;
+}
@@ -1,11 +1,18 @@
-import { Subscription, PaymentRecord } from './types';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Subscription, PaymentRecord, BillingInterval } from './types';
+import { getRenewalDate } from './calendar';
 
-export function calculateNextBillingDate(currentDate: number, interval: 'month' = 'month'): number {
-  const date = new Date(currentDate);
-  if (interval === 'month') {
-    date.setMonth(date.getMonth() + 1);
-  }
-  return date.getTime();
+export function calculateNextBillingDate(currentDate: number, interval: BillingInterval = 'month'): number {
+  return getRenewalDate(currentDate, interval, 1);
+}
+
+export function toLamports(amount: number): number {
+  return Math.round(amount * LAMPORTS_PER_SOL);
+}
+
+// Rounds a SOL amount to whole lamports so repeated arithmetic doesn't accumulate float noise
+export function roundSol(amount: number): number {
+  return toLamports(amount) / LAMPORTS_PER_SOL;
 }
 
 export function formatDate(timestamp: number): string {
@@ -26,8 +33,52 @@ export function formatDateTime(timestamp: number): string {
   });
 }
 
-export function isBillingDue(subscription: Subscription): boolean {
-  return Date.now() >= subscription.nextBillingDate && subscription.status === 'active';
+// Subscriptions cancelled at period end are ended rather than renewed
+export function isBillingDue(subscription: Subscription, now: number = Date.now()): boolean {
+  return now >= subscription.nextBillingDate && subscription.status === 'active' && !subscription.cancelAtPeriodEnd;
+}
+
+// Share of `value`, paid for `length` of time, that the time still to run covers
+function getUnusedShare(value: number, length: number, remaining: number): number {
+  return length > 0 ? value * Math.min(remaining / length, 1) : 0;
+}
+
+// What the paid time left before nextBillingDate is worth. Every charge for the current
+// period counts: the initial or renewal charge that opened it (net of discounts, including
+// credit spent on it and excluding overage for the period before) and any upgrade charges
+// since. Each is worth the unused share of the time it paid for. Credit that downgrades
+// already gave back for this time is taken off, so it is never credited twice.
+// Paid time is measured by length rather than found by date: resuming from a pause moves
+// the period later, past the charge that paid for it, without using any of that time.
+export function getUnusedPaidValue(subscription: Subscription, periodStart: number, now: number): number {
+  const periodEnd = subscription.nextBillingDate;
+  const remaining = Math.max(periodEnd - now, 0);
+  const charges = subscription.paymentHistory.filter((payment) => payment.status === 'success');
+  const opening = charges.filter((payment) => payment.kind !== 'proration').at(-1);
+  if (!opening) return 0;
+
+  // Payments from before invoicing existed paid up to the current period's end
+  const getPaidLength = (payment: PaymentRecord) =>
+    payment.invoice
+      ? payment.invoice.periodEnd - payment.invoice.periodStart
+      : periodEnd - (payment.kind === 'proration' ? payment.timestamp : periodStart);
+
+  let value = getUnusedShare(
+    opening.amount + (opening.creditApplied ?? 0) - (opening.overage?.amount ?? 0),
+    getPaidLength(opening),
+    remaining
+  );
+  for (const payment of charges) {
+    if (payment.kind === 'proration' && payment.timestamp >= opening.timestamp) {
+      value += getUnusedShare(payment.amount, getPaidLength(payment), remaining);
+    }
+  }
+  for (const credit of subscription.prorationCredits ?? []) {
+    if (credit.issuedAt >= opening.timestamp) {
+      value -= getUnusedShare(credit.amount, credit.periodEnd - credit.issuedAt, remaining);
+    }
+  }
+  return roundSol(Math.max(value, 0));
 }
 
 export function generateSubscriptionId(): string {
@@ -38,6 +89,8 @@ export function generatePaymentId(): string {
   return `pay_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+// Only appends the payment; callers move nextBillingDate themselves, since failed and
+// proration charges leave it alone and renewals follow the subscription's own interval
 export function addPaymentRecord(
   subscription: Subscription,
   payment: Omit<PaymentRecord, 'id' | 'subscriptionId'>
@@ -51,7 +104,19 @@ export function addPaymentRecord(
   return {
     ...subscription,
     paymentHistory: [...subscription.paymentHistory, paymentRecord],
-    nextBillingDate: calculateNextBillingDate(Date.now()),
   };
 }
 
+
+export function formatCountdown(milliseconds: number): string {
+  if (milliseconds <= 0) return 'now';
+
+  const totalMinutes = Math.ceil(milliseconds / (60 * 1000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
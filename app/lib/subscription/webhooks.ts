@@ -0,0 +1,108 @@
+import type { PaymentRecord, Subscription } from './types';
+import { toMonthlyAmount } from './analytics';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'subscription.created',
+  'subscription.renewed',
+  'subscription.payment_failed',
+  'subscription.paused',
+  'subscription.cancelled',
+  'subscription.expired',
+  'subscription.upgraded',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+// Body of every webhook request
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  data: {
+    walletAddress: string;
+    subscription: Subscription;
+    // The charge that triggered renewed or payment_failed
+    payment?: PaymentRecord;
+    previousPlanId?: string;
+  };
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookAttempt {
+  at: number;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  // Set while automatic retries remain
+  nextAttemptAt?: number;
+  createdAt: number;
+}
+
+// Receivers check this header: t is the send time in seconds, v1 the HMAC-SHA256 of `${t}.${body}`
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Lazorkit-Signature';
+
+// Works out which lifecycle events a change from `before` to `after` amounts to;
+// `before` is undefined when the subscription was just created
+export function detectLifecycleEvents(
+  walletAddress: string,
+  before: Subscription | undefined,
+  after: Subscription,
+  now: number = Date.now()
+): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  const emit = (type: WebhookEventType, extra: Partial<WebhookEvent['data']> = {}) =>
+    events.push({
+      id: `evt_${now}_${Math.random().toString(36).substring(2, 9)}`,
+      type,
+      createdAt: now,
+      data: { walletAddress, subscription: after, ...extra },
+    });
+
+  if (!before) {
+    emit('subscription.created');
+    return events;
+  }
+
+  const knownPayments = new Set(before.paymentHistory.map((payment) => payment.id));
+  for (const payment of after.paymentHistory.filter((payment) => !knownPayments.has(payment.id))) {
+    if (payment.status === 'failed') {
+      emit('subscription.payment_failed', { payment });
+    } else if (payment.kind === 'renewal') {
+      emit('subscription.renewed', { payment });
+    }
+  }
+
+  // Only a move to a pricier plan counts; there is no event for downgrades
+  if (
+    after.planId !== before.planId &&
+    toMonthlyAmount(after.amount, after.interval) > toMonthlyAmount(before.amount, before.interval)
+  ) {
+    emit('subscription.upgraded', { previousPlanId: before.planId });
+  }
+
+  if (after.status !== before.status) {
+    if (after.status === 'paused') emit('subscription.paused');
+    if (after.status === 'cancelled') emit('subscription.cancelled');
+    if (after.status === 'expired') emit('subscription.expired');
+  }
+
+  return events;
+}
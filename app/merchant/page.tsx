@@ -0,0 +1,17 @@
+'use client';
+
+import AppLayout from '../components/layout/AppLayout';
+import MerchantDashboard from '../components/MerchantDashboard';
+
+export default function MerchantPage() {
+  return (
+    <AppLayout>
+      <div className="mb-4 sm:mb-6 md:mb-8 px-4 sm:px-0">
+        <h1 className="mb-2 text-xl sm:text-2xl md:text-3xl font-bold text-foreground">Merchant</h1>
+        <p className="text-xs sm:text-sm md:text-base text-muted-foreground">Subscribers and revenue across all wallets</p>
+      </div>
+
+      <MerchantDashboard />
+    </AppLayout>
+  );
+}
@@ -9,7 +9,7 @@ import AppLayout from './components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card';
 import { Button } from './components/ui/button';
 import TransactionHistory from './components/TransactionHistory';
-import { getSubscriptions } from './lib/subscription/storage';
+import { useSubscriptions } from './hooks/useSubscriptionStore';
 import { WALLET_EVENTS, listenWalletEvent } from './lib/events/walletEvents';
 
 const RPC_URL = 'https://api.devnet.solana.com';
@@ -19,7 +19,8 @@ export default function DashboardPage() {
   const router = useRouter();
   const [balance, setBalance] = useState<number | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
-  const [subscriptionCount, setSubscriptionCount] = useState(0);
+  const { subscriptions } = useSubscriptions(isConnected && smartWalletPubkey ? smartWalletPubkey.toString() : null);
+  const subscriptionCount = subscriptions.filter((s) => s.status === 'active').length;
 
   const fetchBalance = useCallback(async () => {
     if (!smartWalletPubkey) return;
@@ -61,15 +62,6 @@ export default function DashboardPage() {
     };
   }, [isConnected, smartWalletPubkey, fetchBalance]);
 
-  useEffect(() => {
-    if (isConnected && smartWalletPubkey) {
-      const subs = getSubscriptions(smartWalletPubkey.toString());
-      setSubscriptionCount(subs.filter(s => s.status === 'active').length);
-    } else {
-      setSubscriptionCount(0);
-    }
-  }, [isConnected, smartWalletPubkey]);
-
   const handleConnect = async () => {
     if (typeof window === 'undefined' || !window.PublicKeyCredential) {
       alert('WebAuthn is not supported in this browser. Please use a modern browser.');
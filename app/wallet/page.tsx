@@ -11,6 +11,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Input } from '../components/ui/input';
 import { Button } from '../components/ui/button';
 import { WALLET_EVENTS, listenWalletEvent, dispatchWalletEvent } from '../lib/events/walletEvents';
+import { DEFAULT_PRICE_FEED } from '../lib/subscription/pricing';
+import { useEntitlements } from '../hooks/useEntitlements';
+import TransactionQuota from '../components/TransactionQuota';
 
 const RPC_URL = 'https://api.devnet.solana.com';
 const EXPLORER_URL = 'https://explorer.solana.com';
@@ -18,6 +21,7 @@ const EXPLORER_URL = 'https://explorer.solana.com';
 export default function WalletPage() {
   const { smartWalletPubkey, isConnected, signAndSendTransaction, signMessage } = useWallet();
   const [balance, setBalance] = useState<number | null>(null);
+  const [solUsdRate, setSolUsdRate] = useState<number | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
   const [sendAmount, setSendAmount] = useState('');
   const [recipientAddress, setRecipientAddress] = useState('');
@@ -29,6 +33,7 @@ export default function WalletPage() {
   const [signStatus, setSignStatus] = useState<'idle' | 'signing' | 'success' | 'error'>('idle');
   const [signature, setSignature] = useState<string | null>(null);
   const [signError, setSignError] = useState<string | null>(null);
+  const { entitlements, quotaStatus, planName, canTransact } = useEntitlements();
 
   const prevPubkeyRef = useRef<string | null>(null);
 
@@ -70,6 +75,14 @@ export default function WalletPage() {
     }
   }, [isConnected, smartWalletPubkey, fetchBalance]);
 
+  useEffect(() => {
+    DEFAULT_PRICE_FEED.getRate('SOL', 'USD')
+      .then((rate) => setSolUsdRate(rate.rate))
+      .catch(() => {
+        // Leave the USD value hidden if no rate is available
+      });
+  }, []);
+
   useEffect(() => {
     if (!isConnected || !smartWalletPubkey) return;
 
@@ -98,6 +111,11 @@ export default function WalletPage() {
       return;
     }
 
+    if (!canTransact) {
+      setError(`Your ${planName} plan's monthly transaction limit has been reached.`);
+      return;
+    }
+
     setTxStatus('signing');
     setError(null);
     setTxSignature(null);
@@ -200,7 +218,7 @@ export default function WalletPage() {
   }
 
   const walletAddress = smartWalletPubkey?.toString() || '';
-  const usdEquivalent = balance !== null ? (balance * 150).toFixed(2) : '0.00';
+  const usdEquivalent = balance !== null && solUsdRate !== null ? (balance * solUsdRate).toFixed(2) : null;
 
   return (
     <AppLayout>
@@ -232,7 +250,9 @@ export default function WalletPage() {
               )}
             </div>
           </div>
-          <CardDescription className="mt-2 text-muted-foreground">≈ ${usdEquivalent} USD</CardDescription>
+          {usdEquivalent !== null && (
+            <CardDescription className="mt-2 text-muted-foreground">≈ ${usdEquivalent} USD</CardDescription>
+          )}
         </CardHeader>
       </Card>
 
@@ -296,6 +316,8 @@ export default function WalletPage() {
                   )}
                 </div>
 
+                <TransactionQuota entitlements={entitlements} quotaStatus={quotaStatus} planName={planName} />
+
                 {error && (
                   <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
                     <p className="text-sm text-destructive">{error}</p>
@@ -318,7 +340,7 @@ export default function WalletPage() {
 
                 <Button
                   type="submit"
-                  disabled={txStatus !== 'idle' && txStatus !== 'error'}
+                  disabled={(txStatus !== 'idle' && txStatus !== 'error') || !canTransact}
                   variant="gradient"
                   className="w-full"
                   size="lg"
@@ -0,0 +1,58 @@
+// Local webhook receiver for trying out merchant webhooks.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs [--port 4000] [--fail 2]
+//
+// Start the app with WEBHOOKS_ALLOW_PRIVATE_URLS=true so it may deliver to localhost.
+// Register http://localhost:4000/webhooks on the merchant page, then create or change a
+// subscription. Each request is logged with whether its signature checks out. --fail N
+// answers the first N requests with a 500 so the retry schedule can be watched.
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : Number(args[index + 1]);
+};
+
+const port = option('port', 4000);
+let failuresLeft = option('fail', 0);
+const secret = process.env.WEBHOOK_SECRET;
+
+function verify(header, body) {
+  if (!secret || !header) return false;
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2)));
+  const expected = Buffer.from(createHmac('sha256', secret).update(`${parts.t}.${body}`).digest('hex'));
+  const actual = Buffer.from(parts.v1 ?? '');
+  const fresh = Math.abs(Date.now() / 1000 - Number(parts.t)) <= 5 * 60;
+  return fresh && expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+createServer((request, response) => {
+  let body = '';
+  request.on('data', (chunk) => (body += chunk));
+  request.on('end', () => {
+    const valid = verify(request.headers['x-lazorkit-signature'], body);
+    let event;
+    try {
+      event = JSON.parse(body || '{}');
+    } catch {
+      console.log(`${new Date().toISOString()} ${request.headers['x-lazorkit-delivery']} body is not JSON -> 400`);
+      response.writeHead(400);
+      response.end();
+      return;
+    }
+    const failing = failuresLeft > 0;
+    if (failing) failuresLeft -= 1;
+    const status = failing ? 500 : secret && !valid ? 400 : 200;
+
+    console.log(
+      `${new Date().toISOString()} ${request.headers['x-lazorkit-delivery']} ${event.type}`,
+      `signature ${secret ? (valid ? 'valid' : 'INVALID') : 'unchecked (set WEBHOOK_SECRET)'}`,
+      `-> ${status}${failing ? ' (simulated failure)' : ''}`
+    );
+
+    response.writeHead(status);
+    response.end();
+  });
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}/webhooks`));